@@ -1,78 +1,483 @@
-import { useState } from 'react';
+import { useEffect, useState, useSyncExternalStore } from 'react';
 import { FileUpload } from './components/FileUpload';
 import { ResultsPanel } from './components/ResultsPanel';
+import { BackendSettingsDialog } from './components/BackendSettingsDialog';
+import { ConnectionStatus } from './components/ConnectionStatus';
+import { LoginDialog } from './components/LoginDialog';
+import { PipelineLogPanel } from './components/PipelineLogPanel';
+import { WorkspaceSidebar } from './components/WorkspaceSidebar';
+import {
+  createVersionId,
+  ORIGINAL_VERSION_ID,
+  versionLabel,
+} from './components/VersionTimeline';
+import { CachedResultChoice, CachedResultPrompt } from './components/CachedResultPrompt';
+import { ResultCacheDialog } from './components/ResultCacheDialog';
+import { UploadQueue } from './components/UploadQueue';
+import { OpenProjectButton } from './components/OpenProjectButton';
+import { SourceViewer } from './components/SourceViewer';
 import { Card, CardContent } from './components/ui/card';
-import { Loader2 } from 'lucide-react';
-import { ProcessedFile } from './types';
-import { api } from './api/client';
+import { Button } from './components/ui/button';
+import { SidebarInset, SidebarProvider, SidebarTrigger } from './components/ui/sidebar';
+import {
+  ResizableHandle,
+  ResizablePanel,
+  ResizablePanelGroup,
+} from './components/ui/resizable';
+import { Database, LogIn, LogOut } from 'lucide-react';
+import {
+  CsvFile,
+  MarkdownFile,
+  ProcessedFile,
+  TableTransformState,
+} from './types';
+import {
+  api,
+  ExtractionResult,
+  HealthStatus,
+  isAbortError,
+} from './api/client';
+import { describeError } from './api/errors';
+import { checkBackendVersion } from './api/contract';
+import { isMockEnabled } from './api/mock';
+import { getApiBaseUrl, getBackendId, setApiBaseUrl } from './api/settings';
+import { addLogEntry, debug } from './api/pipelineLog';
+import { hashFile } from './storage/hash';
+import {
+  CachedResult,
+  clearResultCache,
+  getCachedResult,
+  putCachedResult,
+} from './storage/resultCache';
+import { clearWorkspace, loadWorkspace, saveWorkspace } from './storage/workspace';
+import { isQuotaExceededError } from './storage/db';
+import { buildResultBundle, bundleFilename, readProject } from './storage/bundle';
+import { clearSourceFiles, deleteSourceFile, putSourceFile } from './storage/sourceFiles';
+import {
+  AuthCredentials,
+  cancelLogin,
+  completeLogin,
+  getAuthState,
+  requestLogin,
+  signOut,
+  subscribeAuth,
+} from './api/auth';
+import { QueueWorker, useUploadQueue } from './hooks/useUploadQueue';
+import { discardDrafts, getUnsavedChanges, subscribeDrafts } from './hooks/useEditSession';
 import { toast, Toaster } from 'sonner';
 
+const HEALTH_CHECK_INTERVAL_MS = 30000;
+const WORKSPACE_SAVE_DELAY_MS = 500;
+
+const toCompletedFile = (file: ProcessedFile, result: ExtractionResult): ProcessedFile => ({
+  ...file,
+  status: 'completed',
+  documentName: result.document_name,
+  markdown: {
+    content: result.markdown.content,
+    filename: result.markdown.filename,
+  },
+  csvFiles: result.csv_files
+    ? result.csv_files.map((csv, idx) => ({
+        id: `csv-${idx}`,
+        filename: csv.filename,
+        data: csv.data,
+        headers: csv.headers,
+        parseIssues: csv.issues,
+        downloadError: csv.error,
+      }))
+    : [],
+});
+
+// Every save appends an immutable version; `edited*` mirrors the latest one
+const withMarkdownVersion = (
+  markdown: MarkdownFile,
+  content: string,
+  note?: string
+): MarkdownFile => ({
+  ...markdown,
+  editedContent: content,
+  versions: [
+    ...(markdown.versions ?? []),
+    { id: createVersionId(), createdAt: new Date().toISOString(), note, content },
+  ],
+});
+
+const withCsvVersion = (
+  csv: CsvFile,
+  headers: string[],
+  data: string[][],
+  note?: string
+): CsvFile => ({
+  ...csv,
+  editedHeaders: headers,
+  editedData: data,
+  versions: [
+    ...(csv.versions ?? []),
+    { id: createVersionId(), createdAt: new Date().toISOString(), note, headers, data },
+  ],
+});
+
 function App() {
-  const [currentFile, setCurrentFile] = useState<ProcessedFile | null>(null);
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [isTransforming, setIsTransforming] = useState(false);
+  const [files, setFiles] = useState<ProcessedFile[]>([]);
+  const [activeFileId, setActiveFileId] = useState<string | null>(null);
+  const [apiBaseUrl, setApiBaseUrlState] = useState(getApiBaseUrl);
+  const [health, setHealth] = useState<HealthStatus | null>(null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const auth = useSyncExternalStore(subscribeAuth, getAuthState);
+  const [cachePrompt, setCachePrompt] = useState<{
+    entry: CachedResult;
+    resolve: (choice: CachedResultChoice) => void;
+  } | null>(null);
+  const [isCacheOpen, setIsCacheOpen] = useState(false);
+
+  const [isWorkspaceRestored, setIsWorkspaceRestored] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [savedAt, setSavedAt] = useState(0);
+  const unsavedChanges = useSyncExternalStore(subscribeDrafts, getUnsavedChanges);
+  const [isSourceOpen, setIsSourceOpen] = useState(true);
+  const [sourceFocus, setSourceFocus] = useState<string | null>(null);
+  const hasUnsavedChanges = Object.keys(unsavedChanges).length > 0;
+
+  const currentFile = files.find(file => file.id === activeFileId) ?? null;
+  const showSource = isSourceOpen && currentFile?.status === 'completed';
+
+  // Keep the header's connection indicator current
+  useEffect(() => {
+    let cancelled = false;
+    setHealth(null);
+
+    const check = async () => {
+      const status = await api.checkHealth(apiBaseUrl);
+      if (!cancelled) setHealth(status);
+    };
+
+    check();
+    const interval = setInterval(check, HEALTH_CHECK_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [apiBaseUrl]);
+
+  // Bring back the workspace saved before the last reload
+  useEffect(() => {
+    loadWorkspace()
+      .then(restored => {
+        if (restored.length === 0) return;
+        setFiles(prev => [...restored, ...prev]);
+        setActiveFileId(prev => prev ?? restored[restored.length - 1].id);
+      })
+      .catch(error => debug('[Workspace] Could not restore:', error))
+      .finally(() => setIsWorkspaceRestored(true));
+  }, []);
+
+  // Save shortly after each change; saving before the restore finished
+  // would delete the stored documents
+  useEffect(() => {
+    if (!isWorkspaceRestored) return;
+    const timer = setTimeout(() => {
+      saveWorkspace(files)
+        .then(() => {
+          setStorageError(null);
+          setSavedAt(Date.now());
+        })
+        .catch(error => {
+          debug('[Workspace] Could not save:', error);
+          setStorageError(
+            isQuotaExceededError(error)
+              ? 'Browser storage is full. Remove documents or clear cached results to keep saving your edits.'
+              : `Your edits could not be saved in this browser: ${error instanceof Error ? error.message : String(error)}`
+          );
+        });
+    }, WORKSPACE_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [files, isWorkspaceRestored]);
+
+  // Drafts live in memory only; warn before a reload or close loses them
+  useEffect(() => {
+    if (!hasUnsavedChanges) return;
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [hasUnsavedChanges]);
+
+  useEffect(() => {
+    if (storageError) toast.error('Changes are not being saved', { description: storageError });
+  }, [storageError]);
+
+  const versionWarning = checkBackendVersion(health?.version);
 
-  const handleFileUpload = async (file: File) => {
-    setIsProcessing(true);
+  // Announce an unexpected backend version once per version seen
+  useEffect(() => {
+    if (versionWarning) toast.warning(versionWarning);
+  }, [versionWarning]);
 
+  const handleLogin = (credentials: AuthCredentials) => {
+    completeLogin(credentials);
+    toast.success(
+      credentials.username ? `Signed in as ${credentials.username}` : 'Credentials saved'
+    );
+  };
+
+  const handleSignOut = () => {
+    signOut();
+    toast.info('Signed out');
+  };
+
+  const handleSaveApiBaseUrl = (url: string | null) => {
+    setApiBaseUrl(url);
+    setApiBaseUrlState(getApiBaseUrl());
+    toast.success(url ? 'Backend URL saved' : 'Using default backend URL');
+  };
+
+  const askUseCached = (entry: CachedResult) =>
+    new Promise<CachedResultChoice>(resolve => setCachePrompt({ entry, resolve }));
+
+  const handleCacheChoice = (choice: CachedResultChoice) => {
+    cachePrompt?.resolve(choice);
+    setCachePrompt(null);
+  };
+
+  // Apply an update to one document; a no-op once it has been removed
+  const updateFile = (fileId: string, update: (file: ProcessedFile) => ProcessedFile) => {
+    setFiles(prev => prev.map(file => (file.id === fileId ? update(file) : file)));
+  };
+
+  // Add a document, or replace the one left by an earlier attempt
+  // (keeping its name, which may have been changed in the meantime)
+  const upsertFile = (file: ProcessedFile, activate: boolean) => {
+    setFiles(prev =>
+      prev.some(f => f.id === file.id)
+        ? prev.map(f => (f.id === file.id ? { ...file, name: f.name } : f))
+        : [...prev, file]
+    );
+    setActiveFileId(prev => (activate ? file.id : prev ?? file.id));
+  };
+
+  // Runs for every queued upload. Only a file uploaded on its own gets the
+  // cache prompt and toasts; batch files reuse cached results silently.
+  const processQueueItem: QueueWorker = async (item, { signal, setStatus, setProgress }) => {
+    const { file, interactive } = item;
     const processingFile: ProcessedFile = {
-      id: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      id: item.id,
       name: file.name,
       type: file.type.startsWith('image/') ? 'image' : 'pdf',
       uploadedAt: new Date(),
-      status: 'processing',
+      status: 'uploading',
     };
 
-    setCurrentFile(processingFile);
-    toast.info('Processing file... This may take a moment.');
+    // Identical bytes give an identical extraction from the same backend,
+    // so offer the saved one
+    const backend = getBackendId();
+    let hash: string | null = null;
+    try {
+      hash = await hashFile(file);
+    } catch (error) {
+      debug('[Cache] Could not hash file:', error);
+    }
+
+    // The item may be removed while its file is hashed, looked up or the
+    // user is asked; it must not come back to the workspace then
+    signal.throwIfAborted();
+    const cached = hash ? await getCachedResult(backend, hash) : null;
+    signal.throwIfAborted();
+    if (cached) {
+      const choice = interactive ? await askUseCached(cached) : 'use-cached';
+      signal.throwIfAborted();
+      if (choice === 'cancel') return 'skipped';
+      if (choice === 'use-cached') {
+        // Kept for the source viewer, also when the cached result is used
+        putSourceFile(item.id, file);
+        upsertFile(toCompletedFile(processingFile, cached.result), interactive);
+        addLogEntry({ kind: 'event', message: `Loaded cached result for ${file.name}` });
+        if (interactive) toast.success('Loaded cached result');
+        return 'cached';
+      }
+    }
+
+    putSourceFile(item.id, file);
+    upsertFile(processingFile, interactive);
+    if (interactive) toast.info('Processing file... This may take a moment.');
 
     try {
-      const result = await api.processFile(file);
-
-      const completedFile: ProcessedFile = {
-        ...processingFile,
-        status: 'completed',
-        markdown: {
-          content: result.markdown.content,
-          filename: result.markdown.filename,
+      const result = await api.processFile(file, {
+        signal,
+        onUploadProgress: setProgress,
+        onStatus: status => {
+          if (status === 'completed') return;
+          setStatus(status === 'uploading' ? 'uploading' : 'extracting');
+          updateFile(item.id, prev => ({ ...prev, status }));
         },
-        csvFiles: result.csv_files
-          ? result.csv_files.map((csv, idx) => ({
-              id: `csv-${idx}`,
-              filename: csv.filename,
-              data: csv.data,
-              headers: csv.headers,
-            }))
-          : [],
-      };
+      });
+
+      // Built from the latest state so a rename during processing is kept
+      updateFile(item.id, prev => toCompletedFile(prev, result));
+
+      const failedTables = result.csv_files?.filter(csv => csv.error).length ?? 0;
+
+      // Only complete results are worth reusing
+      if (hash && failedTables === 0) {
+        putCachedResult(backend, hash, file, result).catch(error =>
+          debug('[Cache] Could not store result:', error)
+        );
+      }
 
-      setCurrentFile(completedFile);
-      toast.success('Extraction completed!');
+      if (interactive && failedTables > 0) {
+        toast.warning(
+          `Extraction completed, but ${failedTables} table${failedTables === 1 ? '' : 's'} failed to download`
+        );
+      } else if (interactive) {
+        toast.success('Extraction completed!');
+      }
+      return 'processed';
     } catch (error) {
+      if (isAbortError(error)) {
+        updateFile(item.id, prev => ({
+          ...prev,
+          status: 'cancelled',
+        }));
+        if (interactive) toast.info('Processing cancelled');
+        throw error;
+      }
+
       console.error('Processing error:', error);
 
-      setCurrentFile({
-        ...processingFile,
+      const description = describeError(error);
+      updateFile(item.id, prev => ({
+        ...prev,
         status: 'error',
+        error: description,
+      }));
+
+      if (interactive) toast.error(description.title, { description: description.message });
+      throw error;
+    }
+  };
+
+  const queue = useUploadQueue(processQueueItem);
+
+  // Continue work exported earlier, without calling the backend
+  const handleOpenProject = async (selected: File[]) => {
+    try {
+      const file = await readProject(selected);
+      upsertFile(file, true);
+      addLogEntry({ kind: 'event', message: `Opened project ${file.name}` });
+      toast.success(`Opened ${file.name}`);
+    } catch (error) {
+      toast.error('Could not open project', {
+        description: error instanceof Error ? error.message : String(error),
       });
+    }
+  };
+
+  const handleRenameFile = (fileId: string, name: string) => {
+    updateFile(fileId, file => ({ ...file, name }));
+  };
+
+  const handleRemoveFile = (fileId: string) => {
+    queue.remove(fileId);
+    discardDrafts(fileId);
+    deleteSourceFile(fileId).catch(error =>
+      debug('[SourceFiles] Could not delete file:', error)
+    );
+
+    const remaining = files.filter(file => file.id !== fileId);
+    setFiles(remaining);
+    // Fall back to the most recently added document
+    setActiveFileId(prev =>
+      prev === fileId ? remaining[remaining.length - 1]?.id ?? null : prev
+    );
+  };
 
-      toast.error(
-        error instanceof Error ? error.message : 'Failed to process file'
+  const handleClearLocalData = async () => {
+    queue.clear();
+    try {
+      await Promise.all([clearWorkspace(), clearResultCache(), clearSourceFiles()]);
+      discardDrafts();
+      setFiles([]);
+      setActiveFileId(null);
+      setStorageError(null);
+      toast.success('Local data cleared');
+    } catch (error) {
+      toast.error('Could not clear local data', {
+        description: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  const handleRetryTable = async (csvId: string) => {
+    const csv = currentFile?.csvFiles?.find(c => c.id === csvId);
+    if (!currentFile?.documentName || !csv) return;
+    const fileId = currentFile.id;
+
+    try {
+      const table = await api.fetchTable(currentFile.documentName, csv.filename);
+      updateFile(fileId, prev =>
+        prev.csvFiles
+          ? {
+              ...prev,
+              csvFiles: prev.csvFiles.map(c =>
+                c.id === csvId
+                  ? {
+                      id: c.id,
+                      filename: c.filename,
+                      headers: table.headers,
+                      data: table.data,
+                      parseIssues: table.issues,
+                    }
+                  : c
+              ),
+            }
+          : prev
       );
-    } finally {
-      setIsProcessing(false);
+      toast.success(`${csv.filename} downloaded`);
+    } catch (error) {
+      const description = describeError(error);
+      updateFile(fileId, prev =>
+        prev.csvFiles
+          ? {
+              ...prev,
+              csvFiles: prev.csvFiles.map(c =>
+                c.id === csvId ? { ...c, downloadError: description.message } : c
+              ),
+            }
+          : prev
+      );
+      toast.error(description.title, { description: description.message });
     }
   };
 
-  const handleSaveMarkdown = (content: string) => {
-    setCurrentFile(prev =>
-      prev && prev.markdown
+  const handleDownloadAll = async () => {
+    if (!currentFile) return;
+    try {
+      const blob = await buildResultBundle(currentFile);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = bundleFilename(currentFile);
+      a.click();
+      URL.revokeObjectURL(url);
+      if (unsavedChanges[currentFile.id]) {
+        toast.warning('Edits that are still open were not included. Save them and download again.');
+      }
+    } catch (error) {
+      toast.error('Could not create the ZIP', {
+        description: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  const handleSaveMarkdown = (content: string, note?: string) => {
+    if (!currentFile) return;
+    updateFile(currentFile.id, prev =>
+      prev.markdown
         ? {
             ...prev,
-            markdown: {
-              ...prev.markdown,
-              editedContent: content,
-            },
+            markdown: withMarkdownVersion(prev.markdown, content, note),
           }
         : prev
     );
@@ -80,132 +485,371 @@ function App() {
     toast.success('Markdown saved!');
   };
 
-  const handleSaveCsv = (csvId: string, headers: string[], data: string[][]) => {
-    setCurrentFile(prev =>
-      prev && prev.csvFiles
+  const handleRestoreMarkdown = (versionId: string) => {
+    if (!currentFile) return;
+    updateFile(currentFile.id, prev => {
+      if (!prev.markdown) return prev;
+      const versions = prev.markdown.versions ?? [];
+      const content =
+        versionId === ORIGINAL_VERSION_ID
+          ? prev.markdown.content
+          : versions.find(version => version.id === versionId)?.content;
+      if (content === undefined) return prev;
+      return {
+        ...prev,
+        markdown: withMarkdownVersion(
+          prev.markdown,
+          content,
+          `Restored ${versionLabel(versions, versionId)}`
+        ),
+      };
+    });
+
+    toast.success('Markdown version restored');
+  };
+
+  const updateCsv = (csvId: string, update: (csv: CsvFile) => CsvFile) => {
+    if (!currentFile) return;
+    updateFile(currentFile.id, prev =>
+      prev.csvFiles
         ? {
             ...prev,
-            csvFiles: prev.csvFiles.map(csv =>
-              csv.id === csvId
-                ? { ...csv, 
-                  editedData: data.map(row => 
-                    row.slice(0, csv.headers.length)), 
-                    
-                  editedHeaders: headers.slice(0, csv.headers.length),
-                }
-                : csv
-            ),
+            csvFiles: prev.csvFiles.map(csv => (csv.id === csvId ? update(csv) : csv)),
           }
         : prev
     );
+  };
+
+  const handleSaveCsv = (
+    csvId: string,
+    headers: string[],
+    data: string[][],
+    note?: string
+  ) => {
+    updateCsv(csvId, csv =>
+      withCsvVersion(
+        csv,
+        [...headers],
+        data.map(row => row.slice(0, headers.length)),
+        note
+      )
+    );
 
     toast.success('CSV saved!');
   };
 
+  const handleRestoreCsv = (csvId: string, versionId: string) => {
+    updateCsv(csvId, csv => {
+      const versions = csv.versions ?? [];
+      const version =
+        versionId === ORIGINAL_VERSION_ID
+          ? { headers: csv.headers, data: csv.data }
+          : versions.find(v => v.id === versionId);
+      return version
+        ? withCsvVersion(
+            csv,
+            version.headers,
+            version.data,
+            `Restored ${versionLabel(versions, versionId)}`
+          )
+        : csv;
+    });
+
+    toast.success('Table version restored');
+  };
+
+  // Set or clear (null) the transform state of one table. Results for a
+  // document that has since been removed are dropped.
+  const setTableTransform = (
+    fileId: string,
+    csvId: string,
+    transform: TableTransformState | null
+  ) => {
+    updateFile(fileId, prev => {
+      const { [csvId]: _previous, ...others } = prev.tableTransforms ?? {};
+      return {
+        ...prev,
+        tableTransforms: transform ? { ...others, [csvId]: transform } : others,
+      };
+    });
+  };
+
+  const handleTransformCsv = async (csvId: string, headers: string[], data: string[][]) => {
+    if (!currentFile) return;
+    const fileId = currentFile.id;
+    setTableTransform(fileId, csvId, { isTransforming: true });
+
+    try {
+      const tidy = await api.transform2tidy(headers, data);
+      setTableTransform(fileId, csvId, {
+        isTransforming: false,
+        transformedHeaders: tidy.headers,
+        transformedData: tidy.data,
+      });
+      toast.success('Tidy table ready');
+    } catch (error) {
+      const description = describeError(error);
+      setTableTransform(fileId, csvId, {
+        isTransforming: false,
+        error: description.message,
+      });
+      toast.error(description.title, { description: description.message });
+    }
+  };
+
+  const handleAcceptTransform = (csvId: string) => {
+    const transform = currentFile?.tableTransforms?.[csvId];
+    if (!currentFile || !transform?.transformedData) return;
+
+    updateCsv(csvId, csv =>
+      withCsvVersion(
+        csv,
+        transform.transformedHeaders ?? [],
+        transform.transformedData ?? [],
+        'Tidy format'
+      )
+    );
+    setTableTransform(currentFile.id, csvId, null);
+    toast.success('Table replaced with its tidy version');
+  };
+
+  const handleDiscardTransform = (csvId: string) => {
+    if (currentFile) setTableTransform(currentFile.id, csvId, null);
+  };
+
   return (
-    <div className="min-h-screen bg-gray-50">
-      <Toaster position="top-right" />
-
-      {/* Header */}
-      <header className="bg-white border-b shadow-sm sticky top-0 z-10">
-        <div className="container mx-auto px-6 py-4">
-          <h1 className="text-2xl font-bold text-gray-900">
-            PDF Extraction Tool
-          </h1>
-          <p className="text-sm text-gray-600">
-            Extract and process PDF & Image documents
-          </p>
-        </div>
-      </header>
-
-      {/* Main */}
-      <main className="container mx-auto px-6 py-8">
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-          {/* Upload */}
-          <div className="lg:col-span-1">
-            <Card>
-              <CardContent className="p-6">
-                <h2 className="text-lg font-semibold mb-4">
-                  Upload Document
-                </h2>
-
-                <FileUpload
-                  onUpload={handleFileUpload}
-                  isProcessing={isProcessing}
-                />
-
-                {isProcessing && (
-                  <div className="mt-4 p-4 bg-blue-50 border border-blue-200 rounded-lg">
-                    <div className="flex items-center gap-3">
-                      <Loader2 className="h-5 w-5 text-blue-600 animate-spin" />
-                      <div>
-                        <p className="text-sm font-medium text-blue-900">
-                          Processing...
-                        </p>
-                        <p className="text-xs text-blue-700">
-                          Extracting content from your document
-                        </p>
-                      </div>
+    <SidebarProvider>
+      <WorkspaceSidebar
+        files={files}
+        activeFileId={activeFileId}
+        unsavedChanges={unsavedChanges}
+        onSelect={setActiveFileId}
+        onRename={handleRenameFile}
+        onRemove={handleRemoveFile}
+        storageError={storageError}
+        savedAt={savedAt}
+        onClearLocalData={handleClearLocalData}
+      />
+
+      <SidebarInset className="min-h-screen bg-gray-50">
+        <Toaster position="top-right" />
+
+        {/* Header */}
+        <header className="bg-white border-b shadow-sm sticky top-0 z-10">
+          <div className="container mx-auto px-6 py-4 flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <SidebarTrigger />
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">
+                  PDF Extraction Tool
+                </h1>
+                <p className="text-sm text-gray-600">
+                  Extract and process PDF & Image documents
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-4">
+              <ConnectionStatus
+                health={health}
+                isMock={isMockEnabled()}
+                versionWarning={versionWarning}
+                onOpenSettings={() => setIsSettingsOpen(true)}
+              />
+              {auth.credentials ? (
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-gray-600">
+                    {auth.credentials.username ??
+                      (auth.credentials.scheme === 'api-key' ? 'API key' : 'Token')}
+                  </span>
+                  <Button size="sm" variant="outline" onClick={handleSignOut}>
+                    <LogOut className="h-4 w-4 mr-2" />
+                    Sign Out
+                  </Button>
+                </div>
+              ) : (
+                <Button size="sm" variant="outline" onClick={() => requestLogin()}>
+                  <LogIn className="h-4 w-4 mr-2" />
+                  Sign In
+                </Button>
+              )}
+            </div>
+          </div>
+        </header>
+
+        <LoginDialog
+          open={auth.loginRequired}
+          onLogin={handleLogin}
+          onCancel={cancelLogin}
+        />
+
+        <CachedResultPrompt
+          entry={cachePrompt?.entry ?? null}
+          onChoose={handleCacheChoice}
+        />
+
+        <ResultCacheDialog open={isCacheOpen} onOpenChange={setIsCacheOpen} />
+
+        <BackendSettingsDialog
+          open={isSettingsOpen}
+          onOpenChange={setIsSettingsOpen}
+          currentUrl={apiBaseUrl}
+          onSave={handleSaveApiBaseUrl}
+        />
+
+        {/* Main */}
+        <div className="container mx-auto px-6 py-8">
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Upload */}
+            <div className="lg:col-span-1">
+              <Card>
+                <CardContent className="p-6">
+                  <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-lg font-semibold">
+                      Upload Document
+                    </h2>
+                    <div className="flex gap-1">
+                      <OpenProjectButton onOpen={handleOpenProject} />
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setIsCacheOpen(true)}
+                      >
+                        <Database className="h-4 w-4 mr-2" />
+                        Cache
+                      </Button>
                     </div>
                   </div>
-                )}
 
-                {currentFile?.status === 'completed' && (
-                  <div className="mt-4 p-4 bg-green-50 border border-green-200 rounded-lg">
-                    <p className="text-sm font-medium text-green-900">
-                      ✓ Extraction Complete
-                    </p>
-                    <div className="text-xs text-green-700 mt-1 space-y-1">
-                      <p>
-                        • Markdown: {currentFile.markdown?.filename}
+                  <FileUpload
+                    onUpload={queue.enqueue}
+                    disabled={cachePrompt !== null}
+                  />
+
+                  {queue.items.length > 0 && (
+                    <UploadQueue
+                      items={queue.items}
+                      concurrency={queue.concurrency}
+                      onConcurrencyChange={queue.setConcurrency}
+                      onOpen={setActiveFileId}
+                      onRetry={queue.retry}
+                      onRemove={queue.remove}
+                      onClearFinished={queue.clearFinished}
+                    />
+                  )}
+
+                  {currentFile?.status === 'error' && currentFile.error && (
+                    <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+                      <p className="text-sm font-medium text-red-900">
+                        {currentFile.error.title}
                       </p>
-                      <p>
-                        • CSV Tables: {currentFile.csvFiles?.length}
+                      <p className="text-xs text-red-700 mt-1">
+                        {currentFile.error.message}
                       </p>
                     </div>
-                  </div>
+                  )}
+
+                  {currentFile?.status === 'cancelled' && (
+                    <div className="mt-4 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+                      <p className="text-sm font-medium text-gray-900">
+                        Processing cancelled
+                      </p>
+                      <p className="text-xs text-gray-600 mt-1">
+                        Upload the document again to restart extraction
+                      </p>
+                    </div>
+                  )}
+
+                  {currentFile?.status === 'completed' && (
+                    <div className="mt-4 p-4 bg-green-50 border border-green-200 rounded-lg">
+                      <p className="text-sm font-medium text-green-900">
+                        ✓ Extraction Complete
+                      </p>
+                      <div className="text-xs text-green-700 mt-1 space-y-1">
+                        <p>
+                          • Markdown: {currentFile.markdown?.filename}
+                        </p>
+                        <p>
+                          • CSV Tables: {currentFile.csvFiles?.length}
+                          {currentFile.csvFiles?.some(csv => csv.downloadError) &&
+                            ` (${currentFile.csvFiles.filter(csv => csv.downloadError).length} failed)`}
+                        </p>
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Instructions */}
+              <Card className="mt-6">
+                <CardContent className="p-6">
+                  <h3 className="text-sm font-semibold mb-3">
+                    How to Use :D
+                  </h3>
+                  <ol className="text-sm text-gray-600 space-y-2 list-decimal list-inside">
+                    <li>Upload a PDF or image file</li>
+                    <li>Wait for processing to complete</li>
+                    <li>Edit markdown content</li>
+                    <li>Edit extracted CSV tables</li>
+                    <li>Download processed results</li>
+                    <li>Transform to Tidy format</li>
+                  </ol>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Results */}
+            <div className="lg:col-span-2">
+              <ResizablePanelGroup direction="horizontal">
+                <ResizablePanel id="results" order={1} minSize={30}>
+                  <ResultsPanel
+                    key={activeFileId ?? 'none'}
+                    file={currentFile}
+                    onSaveMarkdown={handleSaveMarkdown}
+                    onRestoreMarkdown={handleRestoreMarkdown}
+                    onSaveCsv={handleSaveCsv}
+                    onRestoreCsv={handleRestoreCsv}
+                    onTransformCsv={handleTransformCsv}
+                    onAcceptTransform={handleAcceptTransform}
+                    onDiscardTransform={handleDiscardTransform}
+                    onRetryTable={handleRetryTable}
+                    onDownloadAll={handleDownloadAll}
+                    onFocusChange={setSourceFocus}
+                    isSourceOpen={isSourceOpen}
+                    onToggleSource={() => setIsSourceOpen(open => !open)}
+                  />
+                </ResizablePanel>
+                {showSource && currentFile && (
+                  <>
+                    <ResizableHandle withHandle className="mx-2" />
+                    <ResizablePanel id="source" order={2} defaultSize={45} minSize={20}>
+                      <div className="h-[calc(100vh-10rem)] min-h-[480px]">
+                        <SourceViewer
+                          key={currentFile.id}
+                          file={currentFile}
+                          focusText={sourceFocus}
+                          onClose={() => setIsSourceOpen(false)}
+                        />
+                      </div>
+                    </ResizablePanel>
+                  </>
                 )}
-              </CardContent>
-            </Card>
-
-            {/* Instructions */}
-            <Card className="mt-6">
-              <CardContent className="p-6">
-                <h3 className="text-sm font-semibold mb-3">
-                  How to Use :D
-                </h3>
-                <ol className="text-sm text-gray-600 space-y-2 list-decimal list-inside">
-                  <li>Upload a PDF or image file</li>
-                  <li>Wait for processing to complete</li>
-                  <li>Edit markdown content</li>
-                  <li>Edit extracted CSV tables</li>
-                  <li>Download processed results</li>
-                  <li>Transform to Tidy format</li>
-                </ol>
-              </CardContent>
-            </Card>
+              </ResizablePanelGroup>
+            </div>
           </div>
 
-          {/* Results */}
-          <div className="lg:col-span-2">
-            <ResultsPanel
-              file={currentFile}
-              onSaveMarkdown={handleSaveMarkdown}
-              onSaveCsv={handleSaveCsv}
-            />
-          </div>
-        </div>
-      </main>
-
-      {/* Footer */}
-      <footer className="bg-white border-t mt-12">
-        <div className="container mx-auto px-6 py-4">
-          <p className="text-center text-sm text-gray-600">
-            API: http://192.168.10.188:8000/api
-          </p>
+          <PipelineLogPanel />
         </div>
-      </footer>
-    </div>
+
+        {/* Footer */}
+        <footer className="bg-white border-t mt-12">
+          <div className="container mx-auto px-6 py-4">
+            <p className="text-center text-sm text-gray-600">
+              API: {isMockEnabled() ? 'Mock backend' : apiBaseUrl || 'not configured'}
+            </p>
+          </div>
+        </footer>
+      </SidebarInset>
+    </SidebarProvider>
   );
 }
 
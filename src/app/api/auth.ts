@@ -0,0 +1,141 @@
+/**
+ * Credentials for authenticated backends. Every apiClient request asks the
+ * active AuthProvider for headers; a 401 response opens the login dialog
+ * through `requestLogin()` and the request is replayed once the user has
+ * signed in. Credentials are only sent to the backend that issued them.
+ */
+
+import { isMockEnabled } from './mock';
+import { getApiBaseUrl, getBackendId, normalizeBaseUrl } from './settings';
+
+export type AuthScheme = 'bearer' | 'api-key';
+
+export interface AuthCredentials {
+  scheme: AuthScheme;
+  token: string;
+  username?: string;
+  backend?: string; // getBackendId() when they were issued
+}
+
+// Anything that can decorate requests with credentials
+export interface AuthProvider {
+  getHeaders: () => Record<string, string>;
+}
+
+export interface AuthState {
+  credentials: AuthCredentials | null;
+  loginRequired: boolean;
+}
+
+const STORAGE_KEY = 'pdf-extraction.auth';
+
+const readStoredCredentials = (): AuthCredentials | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed.token !== 'string' || !parsed.token) return null;
+    // Saved before credentials were tied to a backend: the one in use then
+    return { ...parsed, backend: parsed.backend ?? getBackendId() } as AuthCredentials;
+  } catch {
+    return null;
+  }
+};
+
+let state: AuthState = {
+  credentials: readStoredCredentials(),
+  loginRequired: false,
+};
+
+const listeners = new Set<() => void>();
+let pendingLogin: { promise: Promise<boolean>; resolve: (ok: boolean) => void } | null = null;
+
+const setState = (next: Partial<AuthState>) => {
+  state = { ...state, ...next };
+  listeners.forEach(listener => listener());
+};
+
+// For useSyncExternalStore
+export const subscribeAuth = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getAuthState = () => state;
+
+export const setCredentials = (credentials: AuthCredentials | null) => {
+  try {
+    if (credentials) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(credentials));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (error) {
+    console.warn('[Auth] Could not persist credentials:', error);
+  }
+  setState({ credentials });
+};
+
+export const authorizationHeader = (credentials: AuthCredentials) =>
+  credentials.scheme === 'bearer'
+    ? `Bearer ${credentials.token}`
+    : `ApiKey ${credentials.token}`;
+
+// Default provider: whatever the user signed in with, if it was issued by
+// the backend in use
+const storedCredentialsProvider: AuthProvider = {
+  getHeaders: (): Record<string, string> =>
+    state.credentials && state.credentials.backend === getBackendId()
+      ? { Authorization: authorizationHeader(state.credentials) }
+      : {},
+};
+
+let provider: AuthProvider = storedCredentialsProvider;
+
+/**
+ * Replace how requests are authenticated, e.g. with a provider that reads
+ * a token from an SSO session. Pass null to restore the default.
+ */
+export const setAuthProvider = (next: AuthProvider | null) => {
+  provider = next ?? storedCredentialsProvider;
+};
+
+/**
+ * Headers for a request to `baseUrl`. Nothing is sent to a URL other than
+ * the saved one, such as an address being tested in the settings.
+ */
+export const getAuthHeaders = (baseUrl: string): Record<string, string> =>
+  isMockEnabled() || normalizeBaseUrl(baseUrl) === getApiBaseUrl() ? provider.getHeaders() : {};
+
+/**
+ * Ask the UI to sign the user in. Concurrent callers share one prompt.
+ * Resolves true after a successful login, false if the user cancels.
+ */
+export const requestLogin = (): Promise<boolean> => {
+  if (!pendingLogin) {
+    let resolve!: (ok: boolean) => void;
+    const promise = new Promise<boolean>(r => {
+      resolve = r;
+    });
+    pendingLogin = { promise, resolve };
+    setState({ loginRequired: true });
+  }
+  return pendingLogin.promise;
+};
+
+export const completeLogin = (credentials: AuthCredentials) => {
+  setCredentials({ ...credentials, backend: getBackendId() });
+  pendingLogin?.resolve(true);
+  pendingLogin = null;
+  setState({ loginRequired: false });
+};
+
+export const cancelLogin = () => {
+  pendingLogin?.resolve(false);
+  pendingLogin = null;
+  setState({ loginRequired: false });
+};
+
+export const signOut = () => setCredentials(null);
@@ -1,8 +1,27 @@
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-const API_BASE_URL = (import.meta as any).env?.VITE_API_BASE_URL;
+import { parseCsv, ParsedCsv } from './csv';
+import { ApiError, ContractError } from './errors';
+import {
+  validateTableExtractionResponse,
+  validateTidyTableResponse,
+  validateTaskStatusResponse,
+  validateTokenResponse,
+  validateUploadResponse,
+} from './contract';
+import { isMockEnabled, mockFetch, mockUpload } from './mock';
+import { getApiBaseUrl } from './settings';
+import { getAuthHeaders, requestLogin } from './auth';
+import { addLogEntry, debug, updateLogEntry } from './pipelineLog';
+import { CsvParseIssue, ProcessingStatus } from '../types';
 
 // Log the API URL for debugging (check browser console)
-console.log('[API Client] Using API URL:', API_BASE_URL);
+if (isMockEnabled()) {
+  debug('[API Client] Using mock backend');
+} else {
+  debug('[API Client] Using API URL:', getApiBaseUrl());
+  if (!getApiBaseUrl()) {
+    console.warn('[API Client] No backend URL configured. Set one in Settings or add ?mock=1 to the URL to use the mock backend.');
+  }
+}
 
 // Response from /upload endpoint - matches FastAPI UploadResponse schema
 export interface UploadResponse {
@@ -12,6 +31,26 @@ export interface UploadResponse {
   processing_time_seconds: number;
 }
 
+// Response from /upload when the backend runs extraction as a background job
+export interface UploadTaskResponse {
+  task_id: string;
+  status: string;
+}
+
+// Response from /status/{task_id}
+export interface TaskStatusResponse {
+  status: string;
+  result?: {
+    markdown?: {
+      content: string;
+      filename: string;
+    };
+    csv_files?: CsvFileData[];
+    merged_path?: string;
+  };
+  error?: string;
+}
+
 // Response from /filter_tables endpoint - matches FastAPI TableExtractionResponse schema
 export interface TableExtractionResponse {
   status: string;
@@ -22,11 +61,25 @@ export interface TableExtractionResponse {
   excel_files: string[];
 }
 
+// Response from /token - FastAPI OAuth2 password flow
+export interface TokenResponse {
+  access_token: string;
+  token_type: string;
+}
+
+// Response from /transform2tidy - the table melted to long format
+export interface TidyTableResponse {
+  headers: string[];
+  data: string[][];
+}
+
 // CSV file data structure for frontend
 export interface CsvFileData {
   filename: string;
   data: string[][];
   headers: string[];
+  issues?: CsvParseIssue[];
+  error?: string; // Set when the table could not be downloaded; data is empty
 }
 
 // Complete extraction result combining markdown + tables
@@ -39,42 +92,513 @@ export interface ExtractionResult {
   document_name: string;
 }
 
+// Bytes of the request body sent so far during /upload
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+  percent: number;
+}
+
+export interface ProcessFileOptions {
+  onStatus?: (status: ProcessingStatus) => void;
+  onUploadProgress?: (progress: UploadProgress) => void;
+  signal?: AbortSignal;
+}
+
+// Status polling starts at the README's 2 second interval and backs off
+const POLL_INITIAL_DELAY_MS = 2000;
+const POLL_MAX_DELAY_MS = 10000;
+const POLL_BACKOFF_FACTOR = 1.5;
+const POLL_MAX_CONSECUTIVE_FAILURES = 3;
+
+const abortError = (signal?: AbortSignal) =>
+  signal?.reason instanceof Error ? signal.reason : new DOMException('The operation was aborted.', 'AbortError');
+
+/**
+ * True when an error comes from an aborted request rather than a failure.
+ */
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export const isTaskResponse = (
+  response: UploadResponse | UploadTaskResponse
+): response is UploadTaskResponse =>
+  typeof (response as UploadTaskResponse).task_id === 'string' &&
+  (response as UploadTaskResponse).task_id.length > 0;
+
+/**
+ * Map the backend's job state onto the states the UI knows about.
+ * FastAPI background workers are not consistent about naming, so accept
+ * the common aliases.
+ */
+export const toProcessingStatus = (status: string): ProcessingStatus => {
+  switch (status.toLowerCase()) {
+    case 'pending':
+    case 'queued':
+    case 'waiting':
+      return 'queued';
+    case 'completed':
+    case 'complete':
+    case 'done':
+    case 'success':
+      return 'completed';
+    case 'error':
+    case 'failed':
+    case 'failure':
+      return 'error';
+    default:
+      return 'processing';
+  }
+};
+
+// Idempotent GETs are retried with exponential backoff on transient failures
+const RETRY_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 500;
+
+interface RequestConfig {
+  endpoint: string; // Route template used in error reports, e.g. '/download/{document}'
+  errorMessage: string;
+  retries?: number;
+  baseUrl?: string; // Overrides the configured backend, e.g. to test a URL before saving it
+  promptLogin?: boolean; // On 401, ask the user to sign in and replay the request
+  authenticate?: boolean; // Send the stored credentials
+  log?: boolean; // Record the call in the pipeline log
+}
+
+const bodySize = (body: BodyInit | null | undefined): number | undefined => {
+  if (typeof body === 'string') return new Blob([body]).size;
+  if (body instanceof URLSearchParams) return body.toString().length;
+  if (body instanceof Blob) return body.size;
+  return undefined;
+};
+
+const queryParams = (path: string) =>
+  Object.fromEntries(new URL(path, 'http://placeholder').searchParams);
+
+/**
+ * Record the size of a response body in the log without consuming it.
+ */
+const logResponseSize = (logId: number, response: Response) => {
+  const contentLength = response.headers.get('content-length');
+  if (contentLength !== null) {
+    updateLogEntry(logId, { responseBytes: Number(contentLength) });
+    return;
+  }
+  response
+    .clone()
+    .blob()
+    .then(blob => updateLogEntry(logId, { responseBytes: blob.size }))
+    .catch(() => undefined);
+};
+
+/**
+ * Fetch `path` from the backend, turning failures into ApiError and
+ * retrying retryable ones when `retries` is set.
+ */
+const request = async (
+  path: string,
+  init: RequestInit,
+  {
+    endpoint,
+    errorMessage,
+    retries = 0,
+    baseUrl = getApiBaseUrl(),
+    promptLogin = true,
+    authenticate = true,
+    log = true,
+  }: RequestConfig
+): Promise<Response> => {
+  const method = init.method ?? 'GET';
+  const signal = init.signal ?? undefined;
+  let attempt = 0;
+
+  for (;;) {
+    // Read credentials per attempt so a replay after login picks up the new token
+    const authInit: RequestInit = {
+      ...init,
+      headers: {
+        ...(init.headers as Record<string, string> | undefined),
+        ...(authenticate ? getAuthHeaders(baseUrl) : {}),
+      },
+    };
+
+    const started = performance.now();
+    const logId = log
+      ? addLogEntry({
+          kind: 'request',
+          message: `${method} ${path}`,
+          method,
+          endpoint,
+          params: queryParams(path),
+          requestBytes: bodySize(init.body),
+        })
+      : null;
+
+    let error: ApiError;
+    try {
+      const response = await (isMockEnabled()
+        ? mockFetch(path, authInit)
+        : fetch(`${baseUrl}${path}`, authInit));
+      if (logId !== null) {
+        updateLogEntry(logId, {
+          status: response.status,
+          durationMs: Math.round(performance.now() - started),
+        });
+        logResponseSize(logId, response);
+      }
+      if (response.ok) return response;
+      error = await ApiError.fromResponse(endpoint, response, errorMessage);
+    } catch (cause) {
+      if (logId !== null) {
+        updateLogEntry(logId, {
+          status: null,
+          durationMs: Math.round(performance.now() - started),
+          error: isAbortError(cause) ? 'Cancelled' : String(cause),
+        });
+      }
+      if (isAbortError(cause)) throw cause;
+      error = ApiError.network(endpoint, cause);
+    }
+
+    if (logId !== null) updateLogEntry(logId, { error: error.message });
+
+    if (error.status === 401 && promptLogin && (await requestLogin())) {
+      if (signal?.aborted) throw abortError(signal);
+      continue;
+    }
+
+    if (!error.retryable || attempt >= retries) throw error;
+
+    const delay = RETRY_BASE_DELAY_MS * 2 ** attempt * (1 + Math.random() * 0.25);
+    debug(`[API Client] ${endpoint} failed (attempt ${attempt + 1}), retrying in ${Math.round(delay)}ms:`, error.message);
+    await sleep(delay, signal);
+    attempt++;
+  }
+};
+
+/**
+ * POST the file to /upload once. Uses XMLHttpRequest because fetch cannot
+ * report upload progress.
+ */
+const sendUpload = async (
+  file: File,
+  onUploadProgress?: (progress: UploadProgress) => void,
+  signal?: AbortSignal
+): Promise<UploadResponse | UploadTaskResponse> => {
+  const started = performance.now();
+  const logId = addLogEntry({
+    kind: 'request',
+    message: `POST /upload (${file.name})`,
+    method: 'POST',
+    endpoint: '/upload',
+    params: { filename: file.name, type: file.type },
+    requestBytes: file.size,
+  });
+  const finishLog = (update: { status: number | null; responseBytes?: number; error?: string }) =>
+    updateLogEntry(logId, { ...update, durationMs: Math.round(performance.now() - started) });
+
+  if (isMockEnabled()) {
+    try {
+      const { status, body } = await mockUpload(
+        file,
+        onUploadProgress,
+        signal,
+        getAuthHeaders(getApiBaseUrl())
+      );
+      const error = status < 200 || status >= 300
+        ? ApiError.fromBody('/upload', status, body, 'Upload failed')
+        : null;
+      finishLog({ status, responseBytes: JSON.stringify(body).length, error: error?.message });
+      if (error) throw error;
+      return validateUploadResponse(body);
+    } catch (error) {
+      if (isAbortError(error)) finishLog({ status: null, error: 'Cancelled' });
+      throw error;
+    }
+  }
+
+  const formData = new FormData();
+  formData.append('file', file);
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError(signal));
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const cleanup = () => signal?.removeEventListener('abort', onAbort);
+
+    xhr.open('POST', `${getApiBaseUrl()}/upload`);
+    Object.entries(getAuthHeaders(getApiBaseUrl())).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+    xhr.upload.onprogress = event => {
+      const total = event.lengthComputable ? event.total : file.size;
+      onUploadProgress?.({
+        loaded: event.loaded,
+        total,
+        percent: total > 0 ? Math.min(100, Math.round((event.loaded / total) * 100)) : 0,
+      });
+    };
+
+    xhr.onload = () => {
+      cleanup();
+      finishLog({ status: xhr.status, responseBytes: xhr.responseText.length });
+      let body: unknown = {};
+      try {
+        body = JSON.parse(xhr.responseText);
+      } catch {
+        // Non-JSON error pages fall through to the generic message
+      }
+
+      if (xhr.status < 200 || xhr.status >= 300) {
+        const error = ApiError.fromBody('/upload', xhr.status, body, 'Upload failed');
+        updateLogEntry(logId, { error: error.message });
+        reject(error);
+        return;
+      }
+
+      debug('[API Client] Upload response:', body);
+      try {
+        resolve(validateUploadResponse(body));
+      } catch (error) {
+        reject(error);
+      }
+    };
+
+    xhr.onerror = () => {
+      cleanup();
+      const error = ApiError.network('/upload');
+      finishLog({ status: null, error: error.message });
+      reject(error);
+    };
+
+    xhr.onabort = () => {
+      cleanup();
+      finishLog({ status: null, error: 'Cancelled' });
+      reject(abortError(signal));
+    };
+
+    xhr.send(formData);
+  });
+};
+
+// Result of pinging the backend's /health endpoint
+export interface HealthStatus {
+  state: 'connected' | 'error' | 'offline';
+  latencyMs: number;
+  version?: string;
+  message?: string;
+}
+
+const HEALTH_TIMEOUT_MS = 5000;
+
+// Parallel /download_table requests per document
+const TABLE_DOWNLOAD_CONCURRENCY = 4;
+
+/**
+ * Map over `items` with at most `limit` calls of `fn` in flight.
+ * Results keep the order of `items`.
+ */
+const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+/**
+ * Read a successful response as JSON; anything else (e.g. an HTML page
+ * from a proxy) is a contract mismatch.
+ */
+const readJson = async (response: Response, endpoint: string): Promise<unknown> => {
+  try {
+    return await response.json();
+  } catch {
+    throw new ContractError(endpoint, '(body)', 'JSON', 'a non-JSON response');
+  }
+};
+
 export const apiClient = {
   /**
-   * Upload a PDF or image file for processing.
-   * The backend processes synchronously and returns when complete.
+   * Ping the backend's health endpoint. `offline` means nothing answered,
+   * `error` means the server answered with a failure status.
    */
-  uploadFile: async (file: File): Promise<UploadResponse> => {
-    console.log('[API Client] Uploading file:', file.name);
-    const formData = new FormData();
-    formData.append('file', file);
+  checkHealth: async (baseUrl: string = getApiBaseUrl()): Promise<HealthStatus> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), HEALTH_TIMEOUT_MS);
+    const started = performance.now();
 
-    const response = await fetch(`${API_BASE_URL}/upload`, {
+    try {
+      const response = await request('/health', { signal: controller.signal }, {
+        endpoint: '/health',
+        errorMessage: 'Health check failed',
+        baseUrl,
+        promptLogin: false,
+        // The URL may be one typed into the settings and not saved yet
+        authenticate: false,
+        log: false,
+      });
+      const body = await response.json().catch(() => ({}));
+      return {
+        state: 'connected',
+        latencyMs: Math.round(performance.now() - started),
+        version: typeof body.version === 'string' ? body.version : undefined,
+      };
+    } catch (error) {
+      const latencyMs = Math.round(performance.now() - started);
+      if (isAbortError(error)) {
+        return { state: 'offline', latencyMs, message: 'Timed out' };
+      }
+      const apiError = error as ApiError;
+      return {
+        state: apiError.status === null ? 'offline' : 'error',
+        latencyMs,
+        message: apiError.message,
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  },
+
+  /**
+   * Exchange a username and password for a bearer token (OAuth2 password flow).
+   */
+  login: async (username: string, password: string): Promise<TokenResponse> => {
+    const response = await request('/token', {
       method: 'POST',
-      body: formData,
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ username, password }).toString(),
+    }, {
+      endpoint: '/token',
+      errorMessage: 'Sign in failed',
+      promptLogin: false,
     });
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.detail || 'Upload failed');
+    return validateTokenResponse(await readJson(response, '/token'));
+  },
+
+  /**
+   * Upload a PDF or image file for processing.
+   * Job-based backends answer with a `task_id` to poll; older backends
+   * process synchronously and return the finished document.
+   */
+  uploadFile: async (
+    file: File,
+    onUploadProgress?: (progress: UploadProgress) => void,
+    signal?: AbortSignal
+  ): Promise<UploadResponse | UploadTaskResponse> => {
+    debug('[API Client] Uploading file:', file.name);
+
+    for (;;) {
+      try {
+        return await sendUpload(file, onUploadProgress, signal);
+      } catch (error) {
+        // Re-prompt for credentials and replay the upload
+        if (error instanceof ApiError && error.status === 401 && (await requestLogin())) {
+          if (signal?.aborted) throw abortError(signal);
+          continue;
+        }
+        throw error;
+      }
     }
+  },
 
-    const result = await response.json();
-    console.log('[API Client] Upload response:', result);
-    return result;
+  /**
+   * Fetch the current state of a background extraction job.
+   */
+  getTaskStatus: async (taskId: string, signal?: AbortSignal): Promise<TaskStatusResponse> => {
+    const response = await request(`/status/${encodeURIComponent(taskId)}`, { signal }, {
+      endpoint: '/status/{task_id}',
+      errorMessage: 'Status check failed',
+    });
+
+    return validateTaskStatusResponse(await readJson(response, '/status/{task_id}'));
   },
 
   /**
-   * Download the processed markdown file for a document.
+   * Poll a background job until it completes or fails, backing off
+   * between requests. Resolves with the final status response.
    */
-  downloadMarkdown: async (documentName: string): Promise<string> => {
-    console.log('[API Client] Downloading markdown for:', documentName);
-    const response = await fetch(`${API_BASE_URL}/download/${encodeURIComponent(documentName)}`);
+  waitForTask: async (
+    taskId: string,
+    onStatus?: (status: ProcessingStatus) => void,
+    signal?: AbortSignal
+  ): Promise<TaskStatusResponse> => {
+    let delay = POLL_INITIAL_DELAY_MS;
+    let failures = 0;
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.detail || 'Download failed');
+    for (;;) {
+      await sleep(delay, signal);
+
+      let taskStatus: TaskStatusResponse;
+      try {
+        taskStatus = await apiClient.getTaskStatus(taskId, signal);
+        failures = 0;
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        if (error instanceof ApiError && !error.retryable) throw error;
+        // A single dropped poll should not fail a long-running job
+        failures += 1;
+        if (failures >= POLL_MAX_CONSECUTIVE_FAILURES) throw error;
+        debug('[API Client] Status poll failed, retrying:', error);
+        continue;
+      }
+
+      const status = toProcessingStatus(taskStatus.status);
+      onStatus?.(status);
+
+      if (status === 'completed') return taskStatus;
+      if (status === 'error') {
+        // The job itself failed; polling again will not change that
+        throw new ApiError('/status/{task_id}', 422, taskStatus.error ?? null, 'Processing failed', false);
+      }
+
+      delay = Math.min(delay * POLL_BACKOFF_FACTOR, POLL_MAX_DELAY_MS);
     }
+  },
+
+  /**
+   * Download the processed markdown file for a document.
+   */
+  downloadMarkdown: async (documentName: string, signal?: AbortSignal): Promise<string> => {
+    debug('[API Client] Downloading markdown for:', documentName);
+    const response = await request(`/download/${encodeURIComponent(documentName)}`, { signal }, {
+      endpoint: '/download/{document}',
+      errorMessage: 'Download failed',
+      retries: RETRY_ATTEMPTS,
+    });
 
     return response.text();
   },
@@ -83,127 +607,134 @@ export const apiClient = {
    * Extract tables from a processed document's markdown.
    * Creates CSV files for each table found.
    */
-  filterTables: async (document: string, storeInFilters: boolean = false): Promise<TableExtractionResponse> => {
-    console.log('[API Client] Extracting tables for:', document);
+  filterTables: async (
+    document: string,
+    storeInFilters: boolean = false,
+    signal?: AbortSignal
+  ): Promise<TableExtractionResponse> => {
+    debug('[API Client] Extracting tables for:', document);
     const params = new URLSearchParams({
       document,
       store_in_filters: storeInFilters.toString(),
     });
 
-    const response = await fetch(`${API_BASE_URL}/filter_tables?${params}`, {
-      method: 'POST',
+    const response = await request(`/filter_tables?${params}`, { method: 'POST', signal }, {
+      endpoint: '/filter_tables',
+      errorMessage: 'Table extraction failed',
     });
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.detail || 'Table extraction failed');
-    }
-
-    return response.json();
+    return validateTableExtractionResponse(await readJson(response, '/filter_tables'));
   },
 
   /**
    * Download a specific CSV table file.
    */
-  downloadTable: async (document: string, filename: string, storeInFilters: boolean = false): Promise<string> => {
+  downloadTable: async (
+    document: string,
+    filename: string,
+    storeInFilters: boolean = false,
+    signal?: AbortSignal
+  ): Promise<string> => {
     const params = new URLSearchParams({
       document,
       filename,
       store_in_filters: storeInFilters.toString(),
     });
 
-    const response = await fetch(`${API_BASE_URL}/download_table?${params}`);
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.detail || 'CSV download failed');
-    }
+    const response = await request(`/download_table?${params}`, { signal }, {
+      endpoint: '/download_table',
+      errorMessage: 'CSV download failed',
+      retries: RETRY_ATTEMPTS,
+    });
 
     return response.text();
   },
 
   /**
-   * Parse CSV content into headers and data rows.
+   * Download and parse one table of a document.
    */
-  parseCsvContent: (csvContent: string): { headers: string[]; data: string[][] } => {
-    const lines = csvContent.trim().split('\n');
-    if (lines.length === 0) {
-      return { headers: [], data: [] };
+  fetchTable: async (documentName: string, filename: string, signal?: AbortSignal): Promise<CsvFileData> => {
+    debug('[API Client] Downloading CSV:', filename);
+    const csvContent = await apiClient.downloadTable(documentName, filename, false, signal);
+    debug('[API Client] CSV content length:', csvContent.length);
+    const parsed = apiClient.parseCsvContent(csvContent);
+    debug('[API Client] Parsed CSV - headers:', parsed.headers, 'rows:', parsed.data.length);
+    addLogEntry({
+      kind: 'table',
+      message: `Parsed ${filename}`,
+      filename,
+      headerCount: parsed.headers.length,
+      rowCount: parsed.data.length,
+      issueCount: parsed.issues.length,
+    });
+    if (parsed.issues.length > 0) {
+      debug('[API Client] Malformed rows in', filename, parsed.issues);
     }
-
-    const parseRow = (line: string): string[] => {
-      const result: string[] = [];
-      let current = '';
-      let inQuotes = false;
-      
-      for (let i = 0; i < line.length; i++) {
-        const char = line[i];
-        if (char === '"') {
-          inQuotes = !inQuotes;
-        } else if (char === ',' && !inQuotes) {
-          result.push(current.trim());
-          current = '';
-        } else {
-          current += char;
-        }
-      }
-      result.push(current.trim());
-      return result;
+    return {
+      filename,
+      headers: parsed.headers,
+      data: parsed.data,
+      issues: parsed.issues,
     };
-
-    const headers = parseRow(lines[0]);
-    const data = lines.slice(1).map(parseRow);
-    
-    return { headers, data };
   },
 
   /**
-   * Full extraction workflow: upload, download markdown, extract tables.
+   * Parse CSV content into headers and data rows.
+   * Malformed rows are reported in `issues` rather than silently fixed up.
    */
-  processFile: async (file: File): Promise<ExtractionResult> => {
-    console.log('[API Client] Starting processFile for:', file.name);
-    
-    // Step 1: Upload and process the file
-    const uploadResult = await apiClient.uploadFile(file);
-    const documentName = uploadResult.merged_path;
-    console.log('[API Client] Document name:', documentName);
+  parseCsvContent: (csvContent: string): ParsedCsv => parseCsv(csvContent),
 
-    // Step 2: Download the generated markdown
-    const markdownContent = await apiClient.downloadMarkdown(documentName);
-    console.log('[API Client] Markdown downloaded, length:', markdownContent.length);
+  /**
+   * Collect the results of a finished document: download markdown, extract tables.
+   */
+  collectResults: async (documentName: string, signal?: AbortSignal): Promise<ExtractionResult> => {
+    // Download the generated markdown
+    const markdownContent = await apiClient.downloadMarkdown(documentName, signal);
+    debug('[API Client] Markdown downloaded, length:', markdownContent.length);
 
-    // Step 3: Extract tables from markdown
+    // Extract tables from markdown
     let csvFiles: CsvFileData[] = [];
     try {
-      console.log('[API Client] Calling filterTables for:', documentName);
-      const tableResult = await apiClient.filterTables(documentName);
-      console.log('[API Client] filterTables response:', tableResult);
-      console.log('[API Client] Tables extracted:', tableResult.tables_count);
-      console.log('[API Client] Excel files:', tableResult.excel_files);
+      debug('[API Client] Calling filterTables for:', documentName);
+      const tableResult = await apiClient.filterTables(documentName, false, signal);
+      debug('[API Client] filterTables response:', tableResult);
+      debug('[API Client] Tables extracted:', tableResult.tables_count);
+      debug('[API Client] Excel files:', tableResult.excel_files);
       
-      // Step 4: Download each CSV file
+      // Download each CSV file; a failed table becomes a placeholder
+      // instead of discarding the tables that did download
       if (tableResult.excel_files && tableResult.excel_files.length > 0) {
-        console.log('[API Client] Downloading', tableResult.excel_files.length, 'CSV files...');
-        csvFiles = await Promise.all(
-          tableResult.excel_files.map(async (filePath: string) => {
+        debug('[API Client] Downloading', tableResult.excel_files.length, 'CSV files...');
+        csvFiles = await mapWithConcurrency(
+          tableResult.excel_files,
+          TABLE_DOWNLOAD_CONCURRENCY,
+          async (filePath: string) => {
             const filename = filePath.split(/[/\\]/).pop() || filePath;
-            console.log('[API Client] Downloading CSV:', filename);
-            const csvContent = await apiClient.downloadTable(documentName, filename);
-            console.log('[API Client] CSV content length:', csvContent.length);
-            const parsed = apiClient.parseCsvContent(csvContent);
-            console.log('[API Client] Parsed CSV - headers:', parsed.headers, 'rows:', parsed.data.length);
-            return {
-              filename,
-              headers: parsed.headers,
-              data: parsed.data,
-            };
-          })
+            try {
+              return await apiClient.fetchTable(documentName, filename, signal);
+            } catch (error) {
+              if (isAbortError(error)) throw error;
+              debug('[API Client] CSV download failed:', filename, error);
+              return {
+                filename,
+                headers: [],
+                data: [],
+                error: error instanceof Error ? error.message : 'CSV download failed',
+              };
+            }
+          }
         );
-        console.log('[API Client] All CSVs downloaded:', csvFiles.length);
+        debug('[API Client] All CSVs downloaded:', csvFiles.filter(csv => !csv.error).length, 'of', csvFiles.length);
       }
     } catch (error) {
+      if (isAbortError(error) || error instanceof ContractError) throw error;
       // Tables extraction is optional - document may not have tables
-      console.error('[API Client] Table extraction failed:', error);
+      debug('[API Client] Table extraction failed:', error);
+      addLogEntry({
+        kind: 'event',
+        message: 'Table extraction failed; continuing without tables',
+        error: error instanceof Error ? error.message : String(error),
+      });
     }
 
     return {
@@ -216,23 +747,71 @@ export const apiClient = {
     };
   },
 
-  transform2tidy: async (csvData: string, tableIndex: number) => {
-    const response = await fetch(`${API_BASE_URL}/transform2tidy`, {
+  /**
+   * Full extraction workflow: upload, wait for the backend, collect results.
+   * Uses the job-based path when the backend returns a `task_id` and falls
+   * back to the synchronous upload → download chain otherwise.
+   */
+  processFile: async (file: File, options: ProcessFileOptions = {}): Promise<ExtractionResult> => {
+    const { onStatus, onUploadProgress, signal } = options;
+    debug('[API Client] Starting processFile for:', file.name);
+    addLogEntry({ kind: 'event', message: `Processing ${file.name}` });
+    
+    // Step 1: Upload the file
+    onStatus?.('uploading');
+    const uploadResult = await apiClient.uploadFile(file, onUploadProgress, signal);
+
+    if (!isTaskResponse(uploadResult)) {
+      const documentName = uploadResult.merged_path;
+      debug('[API Client] Document name:', documentName);
+      onStatus?.('processing');
+      return apiClient.collectResults(documentName, signal);
+    }
+
+    // Step 2: Poll the background job
+    debug('[API Client] Task created:', uploadResult.task_id);
+    addLogEntry({ kind: 'event', message: `Backend job ${uploadResult.task_id} created` });
+    onStatus?.(toProcessingStatus(uploadResult.status));
+    const taskStatus = await apiClient.waitForTask(uploadResult.task_id, onStatus, signal);
+    const result = taskStatus.result ?? {};
+
+    // Step 3: Use inline results when the job returned them
+    if (result.markdown) {
+      return {
+        markdown: result.markdown,
+        csv_files: result.csv_files ?? [],
+        document_name: result.merged_path ?? result.markdown.filename.replace(/\.md$/, ''),
+      };
+    }
+
+    if (!result.merged_path) {
+      throw new ContractError('/status/{task_id}', 'result.merged_path', 'a document name or inline markdown', 'nothing');
+    }
+
+    return apiClient.collectResults(result.merged_path, signal);
+  },
+
+  /**
+   * Send a table (with any edits applied) to be reshaped into tidy form.
+   */
+  transform2tidy: async (
+    headers: string[],
+    data: string[][],
+    signal?: AbortSignal
+  ): Promise<TidyTableResponse> => {
+    const response = await request('/transform2tidy', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({
-        csv_data: csvData,
-        table_index: tableIndex
-      }),
+      body: JSON.stringify({ data, headers }),
+      signal,
+    }, {
+      endpoint: '/transform2tidy',
+      errorMessage: 'Transform failed',
     });
 
-    if (!response.ok) {
-      throw new Error(`Transform failed: ${response.statusText}`);
-    }
-
-    return response.json();
+    return validateTidyTableResponse(await readJson(response, '/transform2tidy'));
   },
 };
 
@@ -0,0 +1,184 @@
+import { ContractError } from './errors';
+import type {
+  TableExtractionResponse,
+  TaskStatusResponse,
+  TidyTableResponse,
+  TokenResponse,
+  UploadResponse,
+  UploadTaskResponse,
+} from './client';
+
+/**
+ * Runtime checks for backend responses. The TypeScript interfaces in
+ * client.ts only describe what we expect; these validators make sure the
+ * backend actually sent it, so a renamed field fails at the boundary with
+ * the field's name instead of surfacing later as `undefined.md`.
+ */
+
+// Backend API version this UI was built and tested against
+export const SUPPORTED_BACKEND_VERSION = '1.0.0';
+
+class SchemaViolation {
+  constructor(
+    readonly path: string,
+    readonly expected: string,
+    readonly received: unknown
+  ) {}
+}
+
+type Validator<T> = (value: unknown, path: string) => T;
+
+const describeValue = (value: unknown) =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const join = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const string: Validator<string> = (value, path) => {
+  if (typeof value !== 'string') throw new SchemaViolation(path, 'string', value);
+  return value;
+};
+
+const nonEmptyString: Validator<string> = (value, path) => {
+  if (typeof value !== 'string' || value.length === 0) {
+    throw new SchemaViolation(path, 'non-empty string', value);
+  }
+  return value;
+};
+
+const number: Validator<number> = (value, path) => {
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    throw new SchemaViolation(path, 'number', value);
+  }
+  return value;
+};
+
+// pandas serializes numeric cells as numbers and missing ones as null
+const cell: Validator<string> = (value, path) => {
+  if (value === null) return '';
+  if (typeof value === 'number') return String(value);
+  return string(value, path);
+};
+
+const array = <T>(item: Validator<T>): Validator<T[]> => (value, path) => {
+  if (!Array.isArray(value)) throw new SchemaViolation(path, 'array', value);
+  return value.map((entry, i) => item(entry, join(path, i)));
+};
+
+const optional = <T>(validator: Validator<T>): Validator<T | undefined> => (value, path) =>
+  value === undefined || value === null ? undefined : validator(value, path);
+
+const object = <T>(shape: { [K in keyof T]: Validator<T[K]> }): Validator<T> => (value, path) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new SchemaViolation(path || '(body)', 'object', value);
+  }
+  const record = value as Record<string, unknown>;
+  const result = { ...record } as T;
+  for (const key of Object.keys(shape) as (keyof T & string)[]) {
+    result[key] = shape[key](record[key], join(path, key));
+  }
+  return result;
+};
+
+const uploadResponse = object<UploadResponse>({
+  status: string,
+  filename: string,
+  merged_path: nonEmptyString,
+  processing_time_seconds: number,
+});
+
+const uploadTaskResponse = object<UploadTaskResponse>({
+  task_id: nonEmptyString,
+  status: string,
+});
+
+const csvFileData = object({
+  filename: nonEmptyString,
+  headers: array(string),
+  data: array(array(cell)),
+});
+
+const taskStatusResponse = object<TaskStatusResponse>({
+  status: string,
+  result: optional(
+    object<NonNullable<TaskStatusResponse['result']>>({
+      markdown: optional(object({ content: string, filename: nonEmptyString })),
+      csv_files: optional(array(csvFileData)),
+      merged_path: optional(nonEmptyString),
+    })
+  ),
+  error: optional(string),
+});
+
+const tableExtractionResponse = object<TableExtractionResponse>({
+  status: string,
+  document: string,
+  markdown_path: string,
+  tables_count: number,
+  excel_folder: string,
+  excel_files: array(nonEmptyString),
+});
+
+const tokenResponse = object<TokenResponse>({
+  access_token: nonEmptyString,
+  token_type: string,
+});
+
+const tidyTableResponse = object<TidyTableResponse>({
+  headers: array(string),
+  data: array(array(cell)),
+});
+
+const check = <T>(endpoint: string, validator: Validator<T>, body: unknown): T => {
+  try {
+    return validator(body, '');
+  } catch (error) {
+    if (error instanceof SchemaViolation) {
+      throw new ContractError(endpoint, error.path, error.expected, describeValue(error.received));
+    }
+    throw error;
+  }
+};
+
+export const validateUploadResponse = (body: unknown): UploadResponse | UploadTaskResponse =>
+  body && typeof body === 'object' && 'task_id' in body
+    ? check('/upload', uploadTaskResponse, body)
+    : check('/upload', uploadResponse, body);
+
+export const validateTaskStatusResponse = (body: unknown): TaskStatusResponse =>
+  check('/status/{task_id}', taskStatusResponse, body);
+
+export const validateTableExtractionResponse = (body: unknown): TableExtractionResponse =>
+  check('/filter_tables', tableExtractionResponse, body);
+
+export const validateTidyTableResponse = (body: unknown): TidyTableResponse =>
+  check('/transform2tidy', tidyTableResponse, body);
+
+export const validateTokenResponse = (body: unknown): TokenResponse =>
+  check('/token', tokenResponse, body);
+
+const parseVersion = (version: string): number[] | null => {
+  const match = /^v?(\d+)\.(\d+)(?:\.(\d+))?/.exec(version.trim());
+  return match ? [Number(match[1]), Number(match[2]), Number(match[3] ?? 0)] : null;
+};
+
+/**
+ * Compare the version reported by the backend with the one this UI was
+ * built against. Returns a warning when the backend is newer, else null.
+ */
+export const checkBackendVersion = (backendVersion: string | undefined): string | null => {
+  if (!backendVersion) return null;
+  const backend = parseVersion(backendVersion);
+  const supported = parseVersion(SUPPORTED_BACKEND_VERSION);
+  if (!backend || !supported) return null;
+
+  for (let i = 0; i < 3; i++) {
+    if (backend[i] < supported[i]) return null;
+    if (backend[i] > supported[i]) {
+      return i === 0
+        ? `Backend ${backendVersion} is a new major version; this UI was built for ${SUPPORTED_BACKEND_VERSION} and responses may not match.`
+        : `Backend ${backendVersion} is newer than ${SUPPORTED_BACKEND_VERSION}, the version this UI was built for.`;
+    }
+  }
+  return null;
+};
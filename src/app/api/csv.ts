@@ -0,0 +1,92 @@
+import Papa from 'papaparse';
+import { CsvParseIssue } from '../types';
+
+export interface ParsedCsv {
+  headers: string[];
+  data: string[][];
+  delimiter: string;
+  issues: CsvParseIssue[];
+}
+
+// Delimiters seen in /download_table output depending on the backend locale
+const DELIMITERS_TO_GUESS = [',', ';', '\t', '|'];
+
+// Lines sampled to detect the delimiter
+const DELIMITER_SAMPLE_ROWS = 50;
+
+export interface ParseCsvOptions {
+  // Known delimiter, e.g. for files this app wrote; detected when missing
+  delimiter?: string;
+}
+
+// Blank lines would make every candidate look inconsistent, so they are
+// left out of the sample. Falls back to a comma, which is fine for
+// single-column tables.
+const detectDelimiter = (text: string) => {
+  const sample = Papa.parse<string[]>(text, {
+    delimiter: '',
+    delimitersToGuess: DELIMITERS_TO_GUESS,
+    skipEmptyLines: 'greedy',
+    preview: DELIMITER_SAMPLE_ROWS,
+  });
+  return sample.meta.delimiter;
+};
+
+/**
+ * Parse CSV text following RFC 4180: quoted fields may contain delimiters,
+ * newlines and escaped `""` quotes, and both LF and CRLF line endings are
+ * accepted. The delimiter is detected and a leading UTF-8 BOM is removed.
+ * Cell values are kept as-is, and so are rows whose cells are all empty;
+ * rows with a wrong field count or broken quoting are reported in
+ * `issues` instead of being silently repaired.
+ */
+export function parseCsv(csvContent: string, options: ParseCsvOptions = {}): ParsedCsv {
+  const text = csvContent.charCodeAt(0) === 0xfeff ? csvContent.slice(1) : csvContent;
+
+  const result = Papa.parse<string[]>(text, {
+    delimiter: options.delimiter ?? detectDelimiter(text),
+  });
+
+  // Only the line break ending the file yields no row; a blank line
+  // inside the table is kept and, with several columns, reported below
+  const rows = result.data;
+  while (rows.length > 0 && rows[rows.length - 1].length === 1 && rows[rows.length - 1][0] === '') {
+    rows.pop();
+  }
+
+  const [headers = [], ...data] = rows;
+  const issues: CsvParseIssue[] = [];
+
+  for (const error of result.errors) {
+    issues.push({
+      row: typeof error.row === 'number' ? error.row + 1 : 0,
+      message: error.message,
+    });
+  }
+
+  data.forEach((row, idx) => {
+    if (row.length !== headers.length) {
+      issues.push({
+        row: idx + 2,
+        message: `Expected ${headers.length} fields but found ${row.length}`,
+      });
+    }
+  });
+
+  issues.sort((a, b) => a.row - b.row);
+
+  return {
+    headers,
+    data,
+    delimiter: result.meta.delimiter,
+    issues,
+  };
+}
+
+/**
+ * Serialize a table as comma-separated CSV, quoting cells that contain
+ * commas, quotes or newlines so the file reads back with `parseCsv`.
+ */
+export function toCsv(headers: string[], data: string[][]): string {
+  return Papa.unparse({ fields: headers, data }, { newline: '\n' });
+}
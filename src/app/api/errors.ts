@@ -0,0 +1,189 @@
+// One entry of a FastAPI/Pydantic validation error (HTTP 422)
+export interface ValidationIssue {
+  loc: (string | number)[];
+  msg: string;
+  type: string;
+}
+
+export type ApiErrorDetail = string | ValidationIssue[] | null;
+
+// Broad error classes the UI distinguishes between
+export type ApiErrorKind =
+  | 'network'
+  | 'file_too_large'
+  | 'invalid_document'
+  | 'not_found'
+  | 'server'
+  | 'client'
+  | 'contract_mismatch';
+
+// Statuses worth retrying: timeouts, rate limits and gateway/server hiccups
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+const isValidationIssues = (value: unknown): value is ValidationIssue[] =>
+  Array.isArray(value) &&
+  value.every(item => item && typeof item === 'object' && 'msg' in item);
+
+/**
+ * Render a FastAPI `detail` field as a single readable line.
+ */
+export const formatDetail = (detail: ApiErrorDetail): string => {
+  if (!detail) return '';
+  if (typeof detail === 'string') return detail;
+  return detail
+    .map(issue => {
+      // Drop the leading "body"/"query" segment FastAPI adds to every location
+      const loc = issue.loc.slice(1).join('.');
+      return loc ? `${loc}: ${issue.msg}` : issue.msg;
+    })
+    .join('; ');
+};
+
+/**
+ * Error raised by every apiClient call. Carries the endpoint that failed,
+ * the HTTP status (null for network failures), the backend's `detail` and
+ * whether repeating the request could succeed.
+ */
+export class ApiError extends Error {
+  readonly endpoint: string;
+  readonly status: number | null;
+  readonly detail: ApiErrorDetail;
+  readonly retryable: boolean;
+
+  constructor(
+    endpoint: string,
+    status: number | null,
+    detail: ApiErrorDetail,
+    fallbackMessage: string,
+    retryable: boolean = status === null || RETRYABLE_STATUSES.has(status)
+  ) {
+    super(formatDetail(detail) || fallbackMessage);
+    this.name = 'ApiError';
+    this.endpoint = endpoint;
+    this.status = status;
+    this.detail = detail;
+    this.retryable = retryable;
+  }
+
+  get kind(): ApiErrorKind {
+    if (this.status === null) return 'network';
+    if (this.status === 413) return 'file_too_large';
+    if (this.status === 415 || this.status === 422) return 'invalid_document';
+    if (this.status === 404) return 'not_found';
+    if (this.status >= 500) return 'server';
+    return 'client';
+  }
+
+  /**
+   * Build an error from a parsed JSON error body (or anything else the
+   * backend sent back).
+   */
+  static fromBody(
+    endpoint: string,
+    status: number,
+    body: unknown,
+    fallbackMessage: string
+  ): ApiError {
+    const raw = body && typeof body === 'object' ? (body as { detail?: unknown }).detail : undefined;
+    const detail: ApiErrorDetail =
+      typeof raw === 'string' || isValidationIssues(raw) ? raw : null;
+    return new ApiError(endpoint, status, detail, `${fallbackMessage} (HTTP ${status})`);
+  }
+
+  static async fromResponse(
+    endpoint: string,
+    response: Response,
+    fallbackMessage: string
+  ): Promise<ApiError> {
+    const body = await response.json().catch(() => ({}));
+    return ApiError.fromBody(endpoint, response.status, body, fallbackMessage);
+  }
+
+  static network(endpoint: string, cause?: unknown): ApiError {
+    const reason = cause instanceof Error ? ` (${cause.message})` : '';
+    return new ApiError(endpoint, null, null, `Could not reach the server${reason}`);
+  }
+}
+
+/**
+ * The backend answered successfully but the body does not have the shape
+ * this UI expects, e.g. a renamed or null field.
+ */
+export class ContractError extends ApiError {
+  readonly field: string;
+
+  constructor(endpoint: string, field: string, expected: string, received: string) {
+    super(
+      endpoint,
+      200,
+      null,
+      `Backend contract mismatch: ${endpoint} returned ${received} for "${field}", expected ${expected}`,
+      false
+    );
+    this.name = 'ContractError';
+    this.field = field;
+  }
+
+  get kind(): ApiErrorKind {
+    return 'contract_mismatch';
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError;
+
+// User-facing summary of a failure
+export interface ErrorDescription {
+  title: string;
+  message: string;
+}
+
+/**
+ * Turn any error thrown by apiClient into a title and message for the UI,
+ * with wording specific to each error class.
+ */
+export const describeError = (error: unknown): ErrorDescription => {
+  if (!isApiError(error)) {
+    return {
+      title: 'Processing failed',
+      message: error instanceof Error ? error.message : 'Failed to process file',
+    };
+  }
+
+  switch (error.kind) {
+    case 'network':
+      return {
+        title: 'Cannot reach the server',
+        message: 'Check your connection and that the extraction backend is running.',
+      };
+    case 'file_too_large':
+      return {
+        title: 'File too large',
+        message: 'The server rejected the upload because the file is too large. Try a smaller file or split the PDF.',
+      };
+    case 'invalid_document':
+      return {
+        title: 'Document could not be processed',
+        message: error.message,
+      };
+    case 'not_found':
+      return {
+        title: 'Result not found',
+        message: `${error.endpoint}: ${error.message}`,
+      };
+    case 'contract_mismatch':
+      return {
+        title: 'Backend contract mismatch',
+        message: `${error.message}. The backend may be a different version than this UI supports.`,
+      };
+    case 'server':
+      return {
+        title: 'Server error',
+        message: `The backend failed at ${error.endpoint} (HTTP ${error.status}). Try again in a moment.`,
+      };
+    default:
+      return {
+        title: 'Request rejected',
+        message: error.message,
+      };
+  }
+};
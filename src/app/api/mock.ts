@@ -0,0 +1,335 @@
+import Papa from 'papaparse';
+import { parseCsv } from './csv';
+import { MockFixture, pickFixture } from './mockFixtures';
+import type { UploadProgress, UploadResponse, UploadTaskResponse } from './client';
+
+/**
+ * In-browser stand-in for the FastAPI backend, used for frontend
+ * development and demos. Enable with `VITE_USE_MOCK_API=true` or by
+ * adding `?mock=1` to the page URL.
+ *
+ * Tuning (env var / query parameter):
+ * - latency per request in ms: `VITE_MOCK_LATENCY_MS` / `mockLatency`
+ * - random 503 rate between 0 and 1: `VITE_MOCK_ERROR_RATE` / `mockErrorRate`
+ * - always fail endpoints, e.g. `/download_table:500,/upload:413`:
+ *   `VITE_MOCK_FAIL` / `mockFail`
+ * - answer /upload with a task id and serve /status: `VITE_MOCK_JOBS` / `mockJobs`
+ * - require a bearer token or API key (any /token login works): `VITE_MOCK_AUTH` / `mockAuth`
+ */
+
+interface MockConfig {
+  enabled: boolean;
+  latencyMs: number;
+  errorRate: number;
+  failures: Map<string, number>;
+  jobs: boolean;
+  auth: boolean;
+}
+
+const DEFAULT_LATENCY_MS = 600;
+
+// Background jobs take this many status polls before completing
+const MOCK_JOB_POLLS = 2;
+
+const readSetting = (queryKey: string, envKey: keyof ImportMetaEnv): string | undefined => {
+  const query = typeof window !== 'undefined'
+    ? new URLSearchParams(window.location.search).get(queryKey)
+    : null;
+  if (query !== null) return query;
+  const env = import.meta.env?.[envKey];
+  return env === undefined || env === '' ? undefined : String(env);
+};
+
+const isTruthy = (value: string | undefined) =>
+  value !== undefined && !['0', 'false', 'no', 'off'].includes(value.toLowerCase());
+
+// "/download_table:500,/upload:413" -> { '/download_table' => 500, '/upload' => 413 }
+const parseFailures = (value: string | undefined): Map<string, number> =>
+  new Map(
+    (value ?? '')
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(Boolean)
+      .map(entry => {
+        const [endpoint, status] = entry.split(':');
+        return [endpoint, Number(status) || 500] as [string, number];
+      })
+  );
+
+const loadConfig = (): MockConfig => ({
+  enabled: isTruthy(readSetting('mock', 'VITE_USE_MOCK_API')),
+  latencyMs: Number(readSetting('mockLatency', 'VITE_MOCK_LATENCY_MS') ?? DEFAULT_LATENCY_MS),
+  errorRate: Number(readSetting('mockErrorRate', 'VITE_MOCK_ERROR_RATE') ?? 0),
+  failures: parseFailures(readSetting('mockFail', 'VITE_MOCK_FAIL')),
+  jobs: isTruthy(readSetting('mockJobs', 'VITE_MOCK_JOBS')),
+  auth: isTruthy(readSetting('mockAuth', 'VITE_MOCK_AUTH')),
+});
+
+const config = loadConfig();
+
+export const isMockEnabled = () => config.enabled;
+
+// Documents "processed" during this session, keyed by document name
+const documents = new Map<string, MockFixture>();
+const tasks = new Map<string, { documentName: string; polls: number }>();
+
+const wait = (ms: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    const abort = () => reject(new DOMException('The operation was aborted.', 'AbortError'));
+    if (signal?.aborted) {
+      abort();
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      abort();
+    }, { once: true });
+  });
+
+// Small random spread so concurrent calls don't all resolve together
+const latency = () => config.latencyMs * (0.75 + Math.random() * 0.5);
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+const text = (body: string, contentType: string) =>
+  new Response(body, { status: 200, headers: { 'Content-Type': contentType } });
+
+const detail = (status: number, message: string) => json({ detail: message }, status);
+
+/**
+ * Return an error response when the endpoint is configured to fail or the
+ * random error rate hits, otherwise null.
+ */
+const injectedFailure = (endpoint: string): Response | null => {
+  const forced = config.failures.get(endpoint);
+  if (forced) return detail(forced, `Mock failure injected for ${endpoint}`);
+  if (Math.random() < config.errorRate) {
+    return detail(503, `Mock backend temporarily unavailable (${endpoint})`);
+  }
+  return null;
+};
+
+/**
+ * Pull GitHub-style pipe tables out of markdown, the same way the backend's
+ * /filter_tables does.
+ */
+const extractTables = (markdown: string): string[][][] => {
+  const tables: string[][][] = [];
+  let current: string[][] = [];
+
+  const splitRow = (line: string) =>
+    line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+
+  const flush = () => {
+    if (current.length > 0) tables.push(current);
+    current = [];
+  };
+
+  for (const line of markdown.split('\n')) {
+    if (!line.trim().startsWith('|')) {
+      flush();
+      continue;
+    }
+    // Skip the header separator row
+    if (/^\|?\s*:?-{3,}/.test(line.trim())) continue;
+    current.push(splitRow(line));
+  }
+  flush();
+
+  return tables;
+};
+
+const tableFilename = (documentName: string, index: number) =>
+  `${documentName}_table_${index + 1}.csv`;
+
+const documentNameFor = (file: File, fixture: MockFixture) => {
+  const stem = file.name.replace(/\.[^.]+$/, '').replace(/[^\w\u1780-\u17FF-]+/g, '_');
+  return `${stem || fixture.id}_${Date.now().toString(36)}`;
+};
+
+/**
+ * Wide table -> long ("tidy") table: the first column identifies the row,
+ * every other column becomes a (variable, value) pair.
+ */
+const toTidy = (headers: string[], data: string[][]) => {
+  const [idHeader = 'id', ...variables] = headers;
+  return {
+    headers: [idHeader, 'variable', 'value'],
+    data: data.flatMap(row =>
+      variables.map((variable, i) => [row[0] ?? '', variable, row[i + 1] ?? ''])
+    ),
+  };
+};
+
+const MOCK_TOKEN_PREFIX = 'mock-token-';
+
+const isAuthorized = (headers: HeadersInit | undefined) => {
+  if (!config.auth) return true;
+  const authorization = new Headers(headers).get('Authorization') ?? '';
+  return (
+    authorization.startsWith(`Bearer ${MOCK_TOKEN_PREFIX}`) ||
+    /^ApiKey \S+/.test(authorization)
+  );
+};
+
+const handleRequest = async (path: string, init: RequestInit): Promise<Response> => {
+  const url = new URL(path, 'http://mock.local');
+  const params = url.searchParams;
+  const route = url.pathname;
+
+  if (route === '/health') {
+    const failure = injectedFailure('/health');
+    if (failure) return failure;
+    return json({ status: 'ok', version: 'mock' });
+  }
+
+  if (route === '/token' && init.method === 'POST') {
+    const form = new URLSearchParams(String(init.body ?? ''));
+    if (!form.get('username') || !form.get('password')) {
+      return detail(401, 'Incorrect username or password');
+    }
+    return json({ access_token: `${MOCK_TOKEN_PREFIX}${Date.now().toString(36)}`, token_type: 'bearer' });
+  }
+
+  if (!isAuthorized(init.headers)) {
+    return detail(401, 'Not authenticated');
+  }
+
+  if (route.startsWith('/status/')) {
+    const failure = injectedFailure('/status');
+    if (failure) return failure;
+
+    const task = tasks.get(decodeURIComponent(route.slice('/status/'.length)));
+    if (!task) return detail(404, 'Task not found');
+
+    task.polls += 1;
+    if (task.polls < MOCK_JOB_POLLS) {
+      return json({ status: 'processing' });
+    }
+    return json({ status: 'completed', result: { merged_path: task.documentName } });
+  }
+
+  if (route.startsWith('/download/')) {
+    const failure = injectedFailure('/download');
+    if (failure) return failure;
+
+    const fixture = documents.get(decodeURIComponent(route.slice('/download/'.length)));
+    if (!fixture) return detail(404, 'Document not found');
+    return text(fixture.markdown, 'text/markdown');
+  }
+
+  if (route === '/filter_tables' && init.method === 'POST') {
+    const failure = injectedFailure('/filter_tables');
+    if (failure) return failure;
+
+    const documentName = params.get('document') ?? '';
+    const fixture = documents.get(documentName);
+    if (!fixture) return detail(404, 'Document not found');
+
+    const tables = extractTables(fixture.markdown);
+    const folder = `output/${documentName}/tables`;
+    return json({
+      status: 'success',
+      document: documentName,
+      markdown_path: `output/${documentName}/${documentName}.md`,
+      tables_count: tables.length,
+      excel_folder: folder,
+      excel_files: tables.map((_, i) => `${folder}/${tableFilename(documentName, i)}`),
+    });
+  }
+
+  if (route === '/download_table') {
+    const failure = injectedFailure('/download_table');
+    if (failure) return failure;
+
+    const documentName = params.get('document') ?? '';
+    const fixture = documents.get(documentName);
+    if (!fixture) return detail(404, 'Document not found');
+
+    const tables = extractTables(fixture.markdown);
+    const index = tables.findIndex((_, i) => tableFilename(documentName, i) === params.get('filename'));
+    if (index === -1) return detail(404, 'Table not found');
+
+    return text(Papa.unparse(tables[index]), 'text/csv');
+  }
+
+  if (route === '/transform2tidy' && init.method === 'POST') {
+    const failure = injectedFailure('/transform2tidy');
+    if (failure) return failure;
+
+    const body = JSON.parse(String(init.body ?? '{}'));
+    const table = Array.isArray(body.data)
+      ? { headers: body.headers ?? [], data: body.data }
+      : parseCsv(String(body.csv_data ?? ''));
+    if (table.headers.length === 0) {
+      return json({ detail: [{ loc: ['body', 'data'], msg: 'Table is empty', type: 'value_error' }] }, 422);
+    }
+    return json(toTidy(table.headers, table.data));
+  }
+
+  return detail(404, 'Not Found');
+};
+
+/**
+ * fetch() replacement answering backend routes from the bundled fixtures.
+ * `path` is relative to the API base URL, e.g. `/download/report`.
+ */
+export const mockFetch = async (path: string, init: RequestInit = {}): Promise<Response> => {
+  await wait(latency(), init.signal);
+  return handleRequest(path, init);
+};
+
+/**
+ * Mock /upload: reports progress in steps, then registers the document.
+ */
+export const mockUpload = async (
+  file: File,
+  onUploadProgress?: (progress: UploadProgress) => void,
+  signal?: AbortSignal,
+  headers?: Record<string, string>
+): Promise<{ status: number; body: UploadResponse | UploadTaskResponse | { detail: string } }> => {
+  const steps = 5;
+  for (let step = 1; step <= steps; step++) {
+    await wait(latency() / steps, signal);
+    const loaded = Math.round((file.size * step) / steps);
+    onUploadProgress?.({
+      loaded,
+      total: file.size,
+      percent: Math.round((step / steps) * 100),
+    });
+  }
+
+  if (!isAuthorized(headers)) {
+    return { status: 401, body: { detail: 'Not authenticated' } };
+  }
+
+  const failure = injectedFailure('/upload');
+  if (failure) return { status: failure.status, body: await failure.json() };
+
+  const fixture = pickFixture(file);
+  const documentName = documentNameFor(file, fixture);
+  documents.set(documentName, fixture);
+
+  if (config.jobs) {
+    const taskId = `mock-${documentName}`;
+    tasks.set(taskId, { documentName, polls: 0 });
+    return { status: 200, body: { task_id: taskId, status: 'queued' } };
+  }
+
+  // Synchronous backends only answer once processing is done
+  await wait(latency(), signal);
+  return {
+    status: 200,
+    body: {
+      status: 'success',
+      filename: file.name,
+      merged_path: documentName,
+      processing_time_seconds: Number((latency() / 1000).toFixed(2)),
+    },
+  };
+};
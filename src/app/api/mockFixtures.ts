@@ -0,0 +1,104 @@
+// Sample documents served by the mock backend (see mock.ts).
+// Each fixture is the markdown the real pipeline would produce; the mock
+// derives /filter_tables output from the markdown tables it contains.
+
+export interface MockFixture {
+  id: string;
+  title: string;
+  markdown: string;
+}
+
+const englishReport: MockFixture = {
+  id: 'annual_report_2024',
+  title: 'Annual Report 2024 (English)',
+  markdown: `# Annual Report 2024
+
+## 1. Summary
+
+Revenue grew steadily across all regions, with the strongest growth in
+the second half of the year. Operating costs were held flat.
+
+## 2. Revenue by Quarter
+
+| Region | Q1 | Q2 | Q3 | Q4 |
+| --- | --- | --- | --- | --- |
+| Phnom Penh | 1,250 | 1,310 | 1,480 | 1,620 |
+| Siem Reap | 640 | 700 | 690 | 810 |
+| Battambang | 420 | 455 | 470 | 515 |
+| Coastal (Kampot, Kep) | 300 | 295 | 340 | 365 |
+
+*Figures in thousands of USD.*
+
+## 3. Headcount
+
+| Department | Staff | Open Positions | Notes |
+| --- | --- | --- | --- |
+| Operations | 48 | 3 | Includes "field" teams |
+| Finance | 12 | 1 | |
+| IT | 9 | 2 | Hiring; data engineering |
+
+## 4. Outlook
+
+Management expects moderate growth in 2025.
+`,
+};
+
+const khmerReport: MockFixture = {
+  id: 'khmer_education_report',
+  title: 'របាយការណ៍អប់រំ ២០២៤ (Khmer)',
+  markdown: `# របាយការណ៍ស្ថិតិអប់រំប្រចាំឆ្នាំ ២០២៤
+
+## ១. សេចក្តីសង្ខេប
+
+ចំនួនសិស្សបានកើនឡើងនៅគ្រប់ខេត្ត ជាពិសេសនៅរាជធានីភ្នំពេញ។
+
+## ២. ចំនួនសិស្ស និងគ្រូតាមខេត្ត
+
+| ខេត្ត | ចំនួនសិស្ស | ចំនួនគ្រូ | សាលារៀន |
+| --- | --- | --- | --- |
+| ភ្នំពេញ | ១២៥,៤០០ | ៤,២០០ | ៣១០ |
+| សៀមរាប | ៨៤,១០០ | ២,៩៥០ | ២៤៥ |
+| បាត់ដំបង | ៧៦,៨០០ | ២,៦១០ | ២៣០ |
+| កំពត | ៤១,២០០ | ១,៤៨០ | ១៤០ |
+
+## ៣. អត្រាបញ្ចប់ការសិក្សា
+
+| កម្រិតសិក្សា | ២០២៣ | ២០២៤ |
+| --- | --- | --- |
+| បឋមសិក្សា | ៨៩% | ៩១% |
+| អនុវិទ្យាល័យ | ៦៤% | ៦៧% |
+| វិទ្យាល័យ | ៤៨% | ៥២% |
+`,
+};
+
+const receiptImage: MockFixture = {
+  id: 'scanned_receipt',
+  title: 'Scanned receipt (image)',
+  markdown: `# Receipt
+
+**Store:** Central Market Stationery
+**Date:** 2024-11-05
+
+| Item | Qty | Unit Price | Total |
+| --- | --- | --- | --- |
+| A4 paper (500 sheets) | 4 | 4.50 | 18.00 |
+| Blue pens, box of 12 | 2 | 3.25 | 6.50 |
+| Stapler | 1 | 7.80 | 7.80 |
+
+**Total:** 32.30 USD
+`,
+};
+
+export const MOCK_FIXTURES: MockFixture[] = [englishReport, khmerReport, receiptImage];
+
+const KHMER_CHARS = /[\u1780-\u17FF]/;
+
+/**
+ * Pick the fixture a mock upload resolves to: images get the receipt,
+ * Khmer file names get the Khmer report, everything else the English one.
+ */
+export const pickFixture = (file: File): MockFixture => {
+  if (file.type.startsWith('image/')) return receiptImage;
+  if (KHMER_CHARS.test(file.name) || /(^|[\W_])kh(m|mer)?([\W_]|$)/i.test(file.name)) return khmerReport;
+  return englishReport;
+};
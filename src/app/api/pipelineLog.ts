@@ -0,0 +1,107 @@
+/**
+ * In-app record of what the API client did, shown in the "Pipeline log"
+ * panel so problems can be diagnosed without DevTools. Console output is
+ * opt-in through the debug toggle instead of always on.
+ */
+
+export interface PipelineLogEntry {
+  id: number;
+  timestamp: string; // ISO 8601
+  kind: 'request' | 'table' | 'event';
+  message: string;
+  method?: string;
+  endpoint?: string; // Route template, e.g. '/download/{document}'
+  params?: Record<string, string>;
+  status?: number | null; // null when no response arrived
+  requestBytes?: number;
+  responseBytes?: number;
+  durationMs?: number;
+  error?: string;
+  // Table entries
+  filename?: string;
+  headerCount?: number;
+  rowCount?: number;
+  issueCount?: number;
+}
+
+const MAX_ENTRIES = 500;
+const DEBUG_STORAGE_KEY = 'pdf-extraction.debug';
+
+let entries: PipelineLogEntry[] = [];
+let nextId = 1;
+const listeners = new Set<() => void>();
+
+const readDebugFlag = () => {
+  try {
+    return localStorage.getItem(DEBUG_STORAGE_KEY) === 'true';
+  } catch {
+    return false;
+  }
+};
+
+let debugEnabled = readDebugFlag();
+
+const notify = () => listeners.forEach(listener => listener());
+
+// For useSyncExternalStore
+export const subscribeLog = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getLogEntries = () => entries;
+
+export const isDebugEnabled = () => debugEnabled;
+
+export const setDebugEnabled = (enabled: boolean) => {
+  debugEnabled = enabled;
+  try {
+    localStorage.setItem(DEBUG_STORAGE_KEY, String(enabled));
+  } catch {
+    // Not persisted; the toggle still applies to this session
+  }
+  notify();
+};
+
+/**
+ * console.log that only prints when the debug toggle is on.
+ */
+export const debug = (...args: unknown[]) => {
+  if (debugEnabled) console.log(...args);
+};
+
+/**
+ * Append an entry and return its id so it can be completed later.
+ */
+export const addLogEntry = (entry: Omit<PipelineLogEntry, 'id' | 'timestamp'>): number => {
+  const id = nextId++;
+  entries = [...entries, { ...entry, id, timestamp: new Date().toISOString() }].slice(-MAX_ENTRIES);
+  notify();
+  return id;
+};
+
+export const updateLogEntry = (id: number, update: Partial<PipelineLogEntry>) => {
+  entries = entries.map(entry => (entry.id === id ? { ...entry, ...update } : entry));
+  notify();
+};
+
+export const clearLog = () => {
+  entries = [];
+  notify();
+};
+
+/**
+ * Serialize the log for attaching to a bug report.
+ */
+export const exportLog = () =>
+  JSON.stringify(
+    {
+      exportedAt: new Date().toISOString(),
+      userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : undefined,
+      entries,
+    },
+    null,
+    2
+  );
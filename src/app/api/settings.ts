@@ -0,0 +1,61 @@
+import { isMockEnabled } from './mock';
+
+// Backend URL chosen at runtime, persisted in localStorage so one build can
+// serve every lab machine. Falls back to VITE_API_BASE_URL from the build.
+
+const STORAGE_KEY = 'pdf-extraction.apiBaseUrl';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const DEFAULT_API_BASE_URL: string = (import.meta as any).env?.VITE_API_BASE_URL ?? '';
+
+/**
+ * Trim whitespace and trailing slashes so paths can be appended directly.
+ */
+export const normalizeBaseUrl = (url: string) => url.trim().replace(/\/+$/, '');
+
+export const isValidBaseUrl = (url: string) => {
+  try {
+    const parsed = new URL(normalizeBaseUrl(url));
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+const readStoredUrl = (): string | null => {
+  try {
+    return localStorage.getItem(STORAGE_KEY);
+  } catch {
+    // Storage can be unavailable (private mode, disabled cookies)
+    return null;
+  }
+};
+
+/**
+ * The backend URL currently in use: the saved one, else the build default.
+ */
+export const getApiBaseUrl = (): string =>
+  normalizeBaseUrl(readStoredUrl() || DEFAULT_API_BASE_URL);
+
+export const MOCK_BACKEND_ID = 'mock';
+
+/**
+ * Which backend is answering: the URL in use, or the mock backend.
+ * Credentials and cached results belong to the backend they came from.
+ */
+export const getBackendId = (): string => (isMockEnabled() ? MOCK_BACKEND_ID : getApiBaseUrl());
+
+/**
+ * Save a backend URL, or pass null to go back to the build default.
+ */
+export const setApiBaseUrl = (url: string | null) => {
+  try {
+    if (url === null || normalizeBaseUrl(url) === normalizeBaseUrl(DEFAULT_API_BASE_URL)) {
+      localStorage.removeItem(STORAGE_KEY);
+    } else {
+      localStorage.setItem(STORAGE_KEY, normalizeBaseUrl(url));
+    }
+  } catch (error) {
+    console.warn('[Settings] Could not persist backend URL:', error);
+  }
+};
@@ -0,0 +1,155 @@
+import { useEffect, useState } from 'react';
+import { CheckCircle2, Loader2, RotateCcw, XCircle } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { api, HealthStatus } from '../api/client';
+import { isMockEnabled } from '../api/mock';
+import {
+  DEFAULT_API_BASE_URL,
+  isValidBaseUrl,
+  normalizeBaseUrl,
+} from '../api/settings';
+
+interface BackendSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentUrl: string;
+  onSave: (url: string | null) => void;
+}
+
+export function BackendSettingsDialog({
+  open,
+  onOpenChange,
+  currentUrl,
+  onSave,
+}: BackendSettingsDialogProps) {
+  const [draftUrl, setDraftUrl] = useState(currentUrl);
+  const [isTesting, setIsTesting] = useState(false);
+  const [testResult, setTestResult] = useState<HealthStatus | null>(null);
+
+  // Start from the URL in use every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setDraftUrl(currentUrl);
+      setTestResult(null);
+    }
+  }, [open, currentUrl]);
+
+  const isValid = isValidBaseUrl(draftUrl);
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    setTestResult(null);
+    try {
+      setTestResult(await api.checkHealth(normalizeBaseUrl(draftUrl)));
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleSave = () => {
+    onSave(normalizeBaseUrl(draftUrl));
+    onOpenChange(false);
+  };
+
+  const handleReset = () => {
+    onSave(null);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Backend Settings</DialogTitle>
+          <DialogDescription>
+            Address of the FastAPI extraction server. Saved in this browser only.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isMockEnabled() && (
+          <p className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded p-3">
+            The mock backend is active, so requests are not sent to this URL.
+            Remove <code>?mock=1</code> from the address to use a real server.
+          </p>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="backend-url">API URL</Label>
+          <Input
+            id="backend-url"
+            value={draftUrl}
+            onChange={e => {
+              setDraftUrl(e.target.value);
+              setTestResult(null);
+            }}
+            placeholder="http://192.168.10.188:8000/api"
+            aria-invalid={draftUrl !== '' && !isValid}
+          />
+          {draftUrl !== '' && !isValid && (
+            <p className="text-xs text-red-600">
+              Enter a full http:// or https:// URL
+            </p>
+          )}
+          <p className="text-xs text-gray-500">
+            Build default: {DEFAULT_API_BASE_URL || 'not set'}
+          </p>
+        </div>
+
+        {testResult && (
+          <div
+            className={`flex items-start gap-2 text-sm rounded p-3 border ${
+              testResult.state === 'connected'
+                ? 'bg-green-50 border-green-200 text-green-800'
+                : 'bg-red-50 border-red-200 text-red-800'
+            }`}
+          >
+            {testResult.state === 'connected' ? (
+              <CheckCircle2 className="h-4 w-4 mt-0.5" />
+            ) : (
+              <XCircle className="h-4 w-4 mt-0.5" />
+            )}
+            <div>
+              {testResult.state === 'connected'
+                ? `Connected in ${testResult.latencyMs} ms`
+                : testResult.state === 'offline'
+                ? 'Server unreachable'
+                : 'Server responded with an error'}
+              {testResult.version && ` · version ${testResult.version}`}
+              {testResult.message && (
+                <p className="text-xs mt-1">{testResult.message}</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={handleReset}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Use Default
+          </Button>
+          <Button
+            variant="outline"
+            onClick={handleTest}
+            disabled={!isValid || isTesting}
+          >
+            {isTesting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Test Connection
+          </Button>
+          <Button onClick={handleSave} disabled={!isValid}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,55 @@
+import { Database, RefreshCw } from 'lucide-react';
+import { Button } from './ui/button';
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import type { CachedResult } from '../storage/resultCache';
+
+export type CachedResultChoice = 'use-cached' | 'reprocess' | 'cancel';
+
+interface CachedResultPromptProps {
+  entry: CachedResult | null;
+  onChoose: (choice: CachedResultChoice) => void;
+}
+
+export function CachedResultPrompt({ entry, onChoose }: CachedResultPromptProps) {
+  const tableCount = entry?.result.csv_files?.length ?? 0;
+
+  return (
+    <AlertDialog open={entry !== null} onOpenChange={open => !open && onChoose('cancel')}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>This document was processed before</AlertDialogTitle>
+          <AlertDialogDescription>
+            {entry && (
+              <>
+                An identical file ({entry.fileName}) was extracted on{' '}
+                {new Date(entry.cachedAt).toLocaleString()} with{' '}
+                {tableCount} table{tableCount === 1 ? '' : 's'}.
+                Use the saved result, or send the document to the server again?
+              </>
+            )}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <Button variant="ghost" onClick={() => onChoose('cancel')}>
+            Cancel
+          </Button>
+          <Button variant="outline" onClick={() => onChoose('reprocess')}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Re-process
+          </Button>
+          <Button onClick={() => onChoose('use-cached')}>
+            <Database className="h-4 w-4 mr-2" />
+            Use Cached Result
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
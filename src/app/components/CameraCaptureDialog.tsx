@@ -0,0 +1,177 @@
+import { useEffect, useRef, useState } from 'react';
+import { Camera, Loader2, RotateCcw, SwitchCamera } from 'lucide-react';
+import { Button } from './ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+
+interface CameraCaptureDialogProps {
+  open: boolean;
+  onCapture: (photo: Blob) => void;
+  onOpenChange: (open: boolean) => void;
+}
+
+type FacingMode = 'environment' | 'user';
+
+const JPEG_QUALITY = 0.92;
+
+export const isCameraSupported = () =>
+  typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+const cameraErrorMessage = (error: unknown) => {
+  const name = error instanceof DOMException ? error.name : '';
+  if (name === 'NotAllowedError') {
+    return 'Camera access was denied. Allow it in the browser settings and try again.';
+  }
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') {
+    return 'No camera was found on this device.';
+  }
+  if (name === 'NotReadableError') {
+    return 'The camera is in use by another application.';
+  }
+  return error instanceof Error ? error.message : String(error);
+};
+
+// Takes a photo with the device camera; the back camera is preferred
+export function CameraCaptureDialog({ open, onCapture, onOpenChange }: CameraCaptureDialogProps) {
+  const [facingMode, setFacingMode] = useState<FacingMode>('environment');
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [photo, setPhoto] = useState<{ blob: Blob; url: string } | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  // The camera stays on only while the dialog shows the live picture
+  useEffect(() => {
+    if (!open || photo) return;
+    let cancelled = false;
+    let started: MediaStream | null = null;
+    setError(null);
+
+    navigator.mediaDevices
+      .getUserMedia({
+        video: { facingMode, width: { ideal: 1920 }, height: { ideal: 1080 } },
+        audio: false,
+      })
+      .then(media => {
+        started = media;
+        if (cancelled) media.getTracks().forEach(track => track.stop());
+        else setStream(media);
+      })
+      .catch(err => {
+        if (!cancelled) setError(cameraErrorMessage(err));
+      });
+
+    return () => {
+      cancelled = true;
+      started?.getTracks().forEach(track => track.stop());
+      setStream(null);
+    };
+  }, [open, photo, facingMode]);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = stream;
+  }, [stream]);
+
+  useEffect(() => {
+    if (!photo) return;
+    return () => URL.revokeObjectURL(photo.url);
+  }, [photo]);
+
+  // Start over with a live picture whenever the dialog is opened
+  useEffect(() => {
+    if (open) setPhoto(null);
+  }, [open]);
+
+  const handleCapture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0);
+    canvas.toBlob(
+      blob => {
+        if (blob) setPhoto({ blob, url: URL.createObjectURL(blob) });
+        else setError('The browser could not take the photo');
+      },
+      'image/jpeg',
+      JPEG_QUALITY
+    );
+  };
+
+  const handleUsePhoto = () => {
+    if (!photo) return;
+    onCapture(photo.blob);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Take Photo</DialogTitle>
+          <DialogDescription>
+            Hold the document flat and fill the frame. The photo is added to the
+            files to upload.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex min-h-[240px] items-center justify-center overflow-hidden rounded-lg bg-gray-900">
+          {error ? (
+            <p className="p-6 text-center text-sm text-red-300">{error}</p>
+          ) : photo ? (
+            <img src={photo.url} alt="Captured photo" className="max-h-[60vh] w-full object-contain" />
+          ) : (
+            <>
+              {!stream && <Loader2 className="h-6 w-6 animate-spin text-gray-400" />}
+              <video
+                ref={videoRef}
+                autoPlay
+                playsInline
+                muted
+                className={`max-h-[60vh] w-full object-contain ${stream ? '' : 'hidden'}`}
+              />
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="items-center">
+          {!photo && (
+            <Button
+              variant="ghost"
+              className="mr-auto"
+              onClick={() => setFacingMode(mode => (mode === 'environment' ? 'user' : 'environment'))}
+              disabled={!stream}
+              title="Switch between front and back camera"
+            >
+              <SwitchCamera className="h-4 w-4 mr-2" />
+              Switch Camera
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          {photo ? (
+            <>
+              <Button variant="outline" onClick={() => setPhoto(null)}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Retake
+              </Button>
+              <Button onClick={handleUsePhoto}>Use Photo</Button>
+            </>
+          ) : (
+            <Button onClick={handleCapture} disabled={!stream}>
+              <Camera className="h-4 w-4 mr-2" />
+              Capture
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
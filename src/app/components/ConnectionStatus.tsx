@@ -0,0 +1,59 @@
+import { AlertTriangle, Settings } from 'lucide-react';
+import { Button } from './ui/button';
+import { HealthStatus } from '../api/client';
+
+interface ConnectionStatusProps {
+  health: HealthStatus | null;
+  isMock: boolean;
+  versionWarning?: string | null;
+  onOpenSettings: () => void;
+}
+
+const STATE_STYLES: Record<HealthStatus['state'] | 'checking', { dot: string; label: string }> = {
+  checking: { dot: 'bg-gray-400 animate-pulse', label: 'Checking…' },
+  connected: { dot: 'bg-green-500', label: 'Connected' },
+  error: { dot: 'bg-amber-500', label: 'Server error' },
+  offline: { dot: 'bg-red-500', label: 'Unreachable' },
+};
+
+export function ConnectionStatus({
+  health,
+  isMock,
+  versionWarning,
+  onOpenSettings,
+}: ConnectionStatusProps) {
+  const style = STATE_STYLES[health?.state ?? 'checking'];
+  const title = health?.message
+    ? `${style.label}: ${health.message}`
+    : health
+    ? `${style.label} (${health.latencyMs} ms)`
+    : style.label;
+
+  return (
+    <div className="flex items-center gap-3">
+      <span
+        className="flex items-center gap-2 text-sm text-gray-600"
+        title={title}
+      >
+        <span className={`h-2.5 w-2.5 rounded-full ${style.dot}`} />
+        {isMock ? `Mock backend · ${style.label}` : style.label}
+        {health?.version && (
+          <span className="text-xs text-gray-400">v{health.version}</span>
+        )}
+      </span>
+      {versionWarning && (
+        <span title={versionWarning} aria-label={versionWarning}>
+          <AlertTriangle className="h-4 w-4 text-amber-500" />
+        </span>
+      )}
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={onOpenSettings}
+        aria-label="Backend settings"
+      >
+        <Settings className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
@@ -1,67 +1,114 @@
-import { useState } from 'react';
-import { Edit, Save, X, Plus, Trash2, Wand2, Download } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { Edit, Save, X, Plus, Trash2, Wand2, Download, AlertTriangle, History, RotateCcw, Undo2, Redo2 } from 'lucide-react';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
-import { CsvFile } from '../types';
+import { CsvFile, TableTransformState } from '../types';
+import { ORIGINAL_VERSION_ID, VersionTimeline, versionLabel } from './VersionTimeline';
+import { undoShortcut } from '../hooks/useUndoableState';
+import { DraftKey, useEditSession } from '../hooks/useEditSession';
+
+interface EditState {
+  headers: string[];
+  data: string[][];
+}
+
+// Spreadsheet selections arrive as tab-separated lines
+const parseClipboardGrid = (text: string) =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\n$/, '')
+    .split('\n')
+    .map(line => line.split('\t'));
 
 interface CsvViewerProps {
   csv: CsvFile;
-  onSave: (headers: string[], data: string[][]) => void;
-  onTransform?: (csvId: string, data: string[][]) => Promise<void>;
+  draftKey?: DraftKey; // Keeps unsaved edits when the viewer unmounts
+  transform?: TableTransformState;
+  onSave: (headers: string[], data: string[][], note?: string) => void;
+  onTransform?: (csvId: string, headers: string[], data: string[][]) => Promise<void>;
   onDownload?: () => void;
+  onRestore?: (versionId: string) => void;
+  onDownloadVersion?: (versionId: string) => void;
 }
 
 export function CsvViewer({
   csv,
+  draftKey,
+  transform,
   onSave,
   onTransform,
   onDownload,
+  onRestore,
+  onDownloadVersion,
 }: CsvViewerProps) {
-  const [isEditing, setIsEditing] = useState(false);
-  const [editHeaders, setEditHeaders] = useState<string[]>([]);
-  const [editData, setEditData] = useState<string[][]>([]);
-  const [isTransforming, setIsTransforming] = useState(false);
-  const [transformError, setTransformError] = useState<string | null>(null);
+  const savedHeaders = csv.editedHeaders || csv.headers;
+  const savedData = csv.editedData || csv.data;
+  // Tidy transforms and re-processing replace the table a draft was made on
+  const savedTable = useMemo(
+    () => JSON.stringify([savedHeaders, savedData]),
+    [savedHeaders, savedData]
+  );
+  const session = useEditSession<EditState>(draftKey, { headers: [], data: [] }, savedTable);
+  const { isEditing, edit, note: versionNote, setNote: setVersionNote } = session;
+  const { headers: editHeaders, data: editData } = edit.value;
+  const [showHistory, setShowHistory] = useState(false);
+  const [previewVersionId, setPreviewVersionId] = useState<string | null>(null);
+  const isTransforming = transform?.isTransforming ?? false;
+  const versions = csv.versions ?? [];
+
+  const previewVersion =
+    previewVersionId === ORIGINAL_VERSION_ID
+      ? { headers: csv.headers, data: csv.data }
+      : versions.find(version => version.id === previewVersionId);
 
   // ✅ Always prefer edited values
   const displayHeaders = isEditing
     ? editHeaders
-    : csv.editedHeaders || csv.headers;
+    : previewVersion?.headers || savedHeaders;
 
   const displayData = isEditing
     ? editData
-    : csv.editedData || csv.data;
+    : previewVersion?.data || savedData;
 
   // --------------------
   // Editing lifecycle
   // --------------------
   const handleStartEdit = () => {
-    setEditHeaders([...displayHeaders]);
-    setEditData(displayData.map(row => [...row]));
-    setIsEditing(true);
+    setPreviewVersionId(null);
+    session.start({
+      headers: [...savedHeaders],
+      data: savedData.map(row => [...row]),
+    });
   };
 
   const handleSave = () => {
     onSave(
       [...editHeaders],
-      editData.map(row => [...row])
+      editData.map(row => [...row]),
+      versionNote.trim() || undefined
     );
-    setIsEditing(false);
+    session.end();
   };
 
   const handleCancel = () => {
-    setIsEditing(false);
+    session.end();
+  };
+
+  const handleRestore = (versionId: string) => {
+    onRestore?.(versionId);
+    setPreviewVersionId(null);
   };
 
   // --------------------
   // Header & cell edits
   // --------------------
+  // Typing in one cell is coalesced into a single undo step
   const handleHeaderChange = (index: number, value: string) => {
-    setEditHeaders(prev => {
-      const next = [...prev];
-      next[index] = value;
-      return next;
-    });
+    edit.set(prev => {
+      const headers = [...prev.headers];
+      headers[index] = value;
+      return { ...prev, headers };
+    }, `header:${index}`);
   };
 
   const handleCellChange = (
@@ -69,10 +116,37 @@ export function CsvViewer({
     colIndex: number,
     value: string
   ) => {
-    setEditData(prev => {
-      const next = prev.map(row => [...row]);
-      next[rowIndex][colIndex] = value;
-      return next;
+    edit.set(prev => {
+      const data = prev.data.map(row => [...row]);
+      data[rowIndex][colIndex] = value;
+      return { ...prev, data };
+    }, `cell:${rowIndex}:${colIndex}`);
+  };
+
+  // Paste a block of cells starting at the focused one, adding rows as
+  // needed. Columns beyond the table are dropped.
+  const handleCellPaste = (
+    rowIndex: number,
+    colIndex: number,
+    e: React.ClipboardEvent<HTMLInputElement>
+  ) => {
+    const text = e.clipboardData.getData('text/plain');
+    if (!/[\t\n]/.test(text)) return; // A single value: let the input handle it
+    e.preventDefault();
+
+    const grid = parseClipboardGrid(text);
+    edit.set(prev => {
+      const data = prev.data.map(row => [...row]);
+      grid.forEach((values, r) => {
+        const target = rowIndex + r;
+        while (data.length <= target) {
+          data.push(new Array(prev.headers.length).fill(''));
+        }
+        values.forEach((value, c) => {
+          if (colIndex + c < prev.headers.length) data[target][colIndex + c] = value;
+        });
+      });
+      return { ...prev, data };
     });
   };
 
@@ -80,35 +154,39 @@ export function CsvViewer({
   // Row operations
   // --------------------
   const handleAddRow = () => {
-    setEditData(prev => [
+    edit.set(prev => ({
       ...prev,
-      new Array(editHeaders.length).fill(''),
-    ]);
+      data: [...prev.data, new Array(prev.headers.length).fill('')],
+    }));
   };
 
   const handleDeleteRow = (rowIndex: number) => {
-    setEditData(prev => prev.filter((_, i) => i !== rowIndex));
+    edit.set(prev => ({
+      ...prev,
+      data: prev.data.filter((_, i) => i !== rowIndex),
+    }));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!isEditing) return;
+    const action = undoShortcut(e);
+    if (!action) return;
+    e.preventDefault();
+    if (action === 'undo') edit.undo();
+    else edit.redo();
   };
 
   // --------------------
   // Transform
   // --------------------
+  // Failures are recorded in `transform.error` by the owner
   const handleTransform = async () => {
     if (!onTransform) return;
-
-    setIsTransforming(true);
-    setTransformError(null);
-
-    try {
-      const data = csv.editedData || csv.data;
-      await onTransform(csv.id, data);
-    } catch (err) {
-      setTransformError(
-        err instanceof Error ? err.message : 'Transform failed'
-      );
-    } finally {
-      setIsTransforming(false);
-    }
+    await onTransform(
+      csv.id,
+      csv.editedHeaders || csv.headers,
+      csv.editedData || csv.data
+    );
   };
 
   return (
@@ -122,6 +200,30 @@ export function CsvViewer({
         <div className="flex gap-2">
           {isEditing ? (
             <>
+              <Input
+                value={versionNote}
+                onChange={e => setVersionNote(e.target.value)}
+                placeholder="Version note (optional)"
+                className="h-8 w-56"
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={edit.undo}
+                disabled={!edit.canUndo}
+                title="Undo (Ctrl+Z)"
+              >
+                <Undo2 className="h-4 w-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={edit.redo}
+                disabled={!edit.canRedo}
+                title="Redo (Ctrl+Shift+Z)"
+              >
+                <Redo2 className="h-4 w-4" />
+              </Button>
               <Button size="sm" variant="outline" onClick={handleAddRow}>
                 <Plus className="h-4 w-4 mr-2" />
                 Add Row
@@ -137,6 +239,14 @@ export function CsvViewer({
             </>
           ) : (
             <>
+              <Button
+                size="sm"
+                variant={showHistory ? 'default' : 'outline'}
+                onClick={() => setShowHistory(v => !v)}
+              >
+                <History className="h-4 w-4 mr-2" />
+                History ({versions.length + 1})
+              </Button>
               <Button size="sm" variant="outline" onClick={onDownload}>
                 <Download className="h-4 w-4 mr-2" />
                 Download CSV
@@ -161,8 +271,75 @@ export function CsvViewer({
         </div>
       </div>
 
+      {showHistory && !isEditing && (
+        <VersionTimeline
+          versions={versions}
+          previewId={previewVersionId}
+          onPreview={setPreviewVersionId}
+          onRestore={handleRestore}
+          onDownload={versionId => onDownloadVersion?.(versionId)}
+        />
+      )}
+
+      {session.isOutdated && (
+        <div className="flex items-center justify-between gap-3 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-900">
+          <span className="flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            This table changed after your unsaved edits were started. Continuing
+            them replaces the current table when you save.
+          </span>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={session.end}>
+              Discard Edits
+            </Button>
+            <Button size="sm" onClick={session.resume}>
+              Continue Editing
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {previewVersionId && !isEditing && (
+        <div className="flex items-center justify-between gap-3 p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-900">
+          <span>
+            Previewing {versionLabel(versions, previewVersionId)} (read-only)
+          </span>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={() => setPreviewVersionId(null)}>
+              Back to Current
+            </Button>
+            {onRestore && (
+              <Button size="sm" onClick={() => handleRestore(previewVersionId)}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Restore
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {csv.parseIssues && csv.parseIssues.length > 0 && (
+        <div className="text-amber-800 bg-amber-50 border border-amber-200 p-3 rounded text-sm">
+          <p className="flex items-center gap-2 font-medium">
+            <AlertTriangle className="h-4 w-4" />
+            {csv.parseIssues.length} malformed row
+            {csv.parseIssues.length === 1 ? '' : 's'} in source CSV
+          </p>
+          <ul className="mt-1 text-xs list-disc list-inside max-h-32 overflow-auto">
+            {csv.parseIssues.map((issue, i) => (
+              <li key={i}>
+                Row {issue.row}: {issue.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Table */}
-      <div className="border rounded-lg overflow-auto max-h-[600px]">
+      <div
+        className="border rounded-lg overflow-auto max-h-[600px]"
+        onKeyDown={handleKeyDown}
+      >
         <table className="w-full border-collapse">
           <thead className="bg-gray-100 sticky top-0">
             <tr>
@@ -211,6 +388,7 @@ export function CsvViewer({
                             e.target.value
                           )
                         }
+                        onPaste={e => handleCellPaste(rIdx, cIdx, e)}
                         className="h-8"
                       />
                     ) : (
@@ -224,9 +402,9 @@ export function CsvViewer({
         </table>
       </div>
 
-      {transformError && (
+      {transform?.error && (
         <div className="text-red-500 bg-red-50 border p-3 rounded text-sm">
-          <strong>Transform Error:</strong> {transformError}
+          <strong>Transform Error:</strong> {transform.error}
         </div>
       )}
     </div>
@@ -1,71 +1,275 @@
-import { useCallback, useState } from 'react';
-import { useDropzone } from 'react-dropzone';
-import { Upload, FileText, Image, Loader2 } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { FileRejection, useDropzone } from 'react-dropzone';
+import {
+  AlertCircle,
+  Camera,
+  FileText,
+  Image,
+  Loader2,
+  Scissors,
+  SlidersHorizontal,
+  Upload,
+  X,
+} from 'lucide-react';
 import { Button } from './ui/button';
 import { Card, CardContent } from './ui/card';
+import { PageRangeDialog } from './PageRangeDialog';
+import { ImageEditDialog } from './ImageEditDialog';
+import { CameraCaptureDialog, isCameraSupported } from './CameraCaptureDialog';
+import { formatPageRanges } from '../pdf/pageRanges';
+import { extractPages } from '../pdf/trim';
+import { applyImageEdits, ImageEdits } from '../image/preprocess';
+import {
+  FileCheck,
+  maxFileSizeBytes,
+  tooLargeImageMessage,
+  tooLargePdfMessage,
+  tooManyPagesMessage,
+  UNSUPPORTED_TYPE_MESSAGE,
+  UPLOAD_LIMITS,
+  validateFile,
+} from '../upload/validation';
 
 interface FileUploadProps {
-  onUpload: (file: File) => void;
-  isProcessing: boolean;
+  onUpload: (files: File[]) => void;
+  disabled?: boolean;
 }
 
-export function FileUpload({ onUpload, isProcessing }: FileUploadProps) {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+interface SelectedFile {
+  file: File;
+  pages?: number[]; // PDF pages to keep; all when missing
+  edits?: ImageEdits; // Applied to an image before upload
+  pageCount?: number; // Of a PDF
+}
+
+// A file that was not added, and why
+interface RejectedFile {
+  name: string;
+  error: string;
+}
+
+
+const isPdf = (file: File) =>
+  file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+
+// Prepare the file that is actually uploaded
+const prepareFile = ({ file, pages, edits }: SelectedFile) => {
+  if (pages) return extractPages(file, pages);
+  if (edits) return applyImageEdits(file, edits);
+  return file;
+};
+
+const ACCEPTED_TYPES = {
+  'application/pdf': ['.pdf'],
+  'image/*': ['.png', '.jpg', '.jpeg', '.gif', '.bmp', '.webp']
+};
+
+const rejectionMessage = ({ errors }: FileRejection) =>
+  errors
+    .map(({ code, message }) => (code === 'file-invalid-type' ? UNSUPPORTED_TYPE_MESSAGE : message))
+    .join('; ');
+
+// Pages that would be uploaded, when over the limit
+const exceedsPageLimit = ({ pages, pageCount }: SelectedFile) =>
+  (pages?.length ?? pageCount ?? 0) > UPLOAD_LIMITS.maxPdfPages;
+
+// A whole PDF over the size limit. With a page selection the size is only
+// known once the pages are extracted.
+const exceedsSizeLimit = ({ file, pages }: SelectedFile) =>
+  !pages && file.size > maxFileSizeBytes();
+
+const cannotUpload = (entry: SelectedFile) => exceedsPageLimit(entry) || exceedsSizeLimit(entry);
+
+// Pasted screenshots are all called image.png; give them a usable name
+const timestampedName = (prefix: string, type: string) => {
+  const stamp = new Date().toISOString().slice(0, 19).replace('T', '_').replace(/:/g, '-');
+  const extension = type === 'image/jpeg' ? 'jpg' : type.split('/')[1] || 'png';
+  return `${prefix}-${stamp}.${extension}`;
+};
 
-  const onDrop = useCallback((acceptedFiles: File[]) => {
-    if (acceptedFiles.length > 0) {
-      const file = acceptedFiles[0];
-      setSelectedFile(file);
+// Pasting into a text field must not add files
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+function ImageThumbnail({ file }: { file: File }) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  return url ? (
+    <img src={url} alt="" className="h-10 w-10 shrink-0 rounded object-cover bg-white" />
+  ) : (
+    <Image className="h-5 w-5 text-blue-500 shrink-0" />
+  );
+}
+
+export function FileUpload({ onUpload, disabled = false }: FileUploadProps) {
+  const [selectedFiles, setSelectedFiles] = useState<SelectedFile[]>([]);
+  // Index of the entry whose pages are being picked
+  const [pickingPages, setPickingPages] = useState<number | null>(null);
+  // Index of the image being adjusted
+  const [editingImage, setEditingImage] = useState<number | null>(null);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [prepareError, setPrepareError] = useState<string | null>(null);
+  // Files of the last drop, paste or photo that were not added
+  const [rejectedFiles, setRejectedFiles] = useState<RejectedFile[]>([]);
+  const [checkingCount, setCheckingCount] = useState(0);
+
+  // Further drops, pastes and photos add to the selection rather than
+  // replacing it. Each file is checked first; failures are listed instead.
+  // Files are checked one at a time, so a large drop does not open every
+  // PDF at once.
+  const addFiles = useCallback(async (files: File[], rejected: RejectedFile[] = []) => {
+    setRejectedFiles(rejected);
+    setPrepareError(null);
+    if (files.length === 0) return;
+
+    setCheckingCount(count => count + files.length);
+    for (const file of files) {
+      // Reading fails when the file was moved or deleted meanwhile
+      const check = await validateFile(file).catch(
+        (error): FileCheck => ({
+          ok: false,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+      if (check.ok) {
+        setSelectedFiles(prev => [...prev, { file, pageCount: check.pageCount }]);
+      } else {
+        setRejectedFiles(prev => [...prev, { name: file.name, error: check.error }]);
+      }
+      setCheckingCount(count => count - 1);
     }
   }, []);
 
-  const { getRootProps, getInputProps, isDragActive } = useDropzone({
-    onDrop,
-    accept: {
-      'application/pdf': ['.pdf'],
-      'image/*': ['.png', '.jpg', '.jpeg', '.gif', '.bmp', '.webp']
+  const onDrop = useCallback(
+    (acceptedFiles: File[], fileRejections: FileRejection[]) => {
+      addFiles(
+        acceptedFiles,
+        fileRejections.map(rejection => ({
+          name: rejection.file.name,
+          error: rejectionMessage(rejection),
+        }))
+      );
     },
-    maxFiles: 1,
-    disabled: isProcessing
+    [addFiles]
+  );
+
+  const { getRootProps, getInputProps, isDragActive, isDragReject } = useDropzone({
+    onDrop,
+    accept: ACCEPTED_TYPES,
+    disabled: disabled || isPreparing
   });
 
-  const handleUpload = () => {
-    if (selectedFile) {
-      onUpload(selectedFile);
-      setSelectedFile(null);
+  // Ctrl/Cmd+V anywhere on the page adds pasted images and files
+  useEffect(() => {
+    if (disabled || isPreparing) return;
+    const handlePaste = (event: ClipboardEvent) => {
+      if (event.defaultPrevented || isEditableTarget(event.target)) return;
+      const pasted = Array.from(event.clipboardData?.files ?? []);
+      if (pasted.length === 0) return;
+      event.preventDefault();
+      addFiles(
+        pasted.map(file =>
+          file.name && file.name !== 'image.png'
+            ? file
+            : new File([file], timestampedName('pasted', file.type), { type: file.type })
+        )
+      );
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [disabled, isPreparing, addFiles]);
+
+  const handleCapture = (photo: Blob) => {
+    addFiles([new File([photo], timestampedName('photo', photo.type), { type: photo.type })]);
+  };
+
+  // PDFs with a page selection are trimmed and adjusted images rendered
+  // here, one at a time, before they are queued. The size limit applies
+  // to the trimmed PDF or adjusted image.
+  const handleUpload = async () => {
+    if (selectedFiles.length === 0) return;
+    setIsPreparing(true);
+    setPrepareError(null);
+    try {
+      const files: File[] = [];
+      for (const entry of selectedFiles) {
+        const prepared = await prepareFile(entry);
+        if (prepared.size > maxFileSizeBytes()) {
+          const message = isPdf(entry.file)
+            ? tooLargePdfMessage(prepared.size)
+            : tooLargeImageMessage(prepared.size);
+          setPrepareError(`${entry.file.name}: ${message}`);
+          return;
+        }
+        files.push(prepared);
+      }
+      onUpload(files);
+      setSelectedFiles([]);
+    } catch (error) {
+      setPrepareError(
+        `Could not prepare the files: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    } finally {
+      setIsPreparing(false);
     }
   };
 
+  const handleRemoveSelected = (index: number) => {
+    setSelectedFiles(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleApplyPages = (pages: number[] | undefined) => {
+    setSelectedFiles(prev =>
+      prev.map((entry, i) => (i === pickingPages ? { ...entry, pages } : entry))
+    );
+    setPickingPages(null);
+  };
+
+  const handleApplyEdits = (edits: ImageEdits | undefined) => {
+    setSelectedFiles(prev =>
+      prev.map((entry, i) => (i === editingImage ? { ...entry, edits } : entry))
+    );
+    setEditingImage(null);
+  };
+
   return (
     <Card className="w-full">
       <CardContent className="pt-6">
         <div
           {...getRootProps()}
           className={`border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors ${
-            isDragActive
+            isDragReject
+              ? 'border-red-400 bg-red-50'
+              : isDragActive
               ? 'border-primary bg-primary/5'
               : 'border-gray-300 hover:border-primary hover:bg-gray-50'
-          } ${isProcessing ? 'opacity-50 cursor-not-allowed' : ''}`}
+          } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
         >
           <input {...getInputProps()} />
           <div className="flex flex-col items-center gap-4">
             <div className="p-4 bg-primary/10 rounded-full">
-              {isProcessing ? (
-                <Loader2 className="h-8 w-8 text-primary animate-spin" />
-              ) : (
-                <Upload className="h-8 w-8 text-primary" />
-              )}
+              <Upload className="h-8 w-8 text-primary" />
             </div>
             <div>
               <p className="text-lg font-medium">
-                {isProcessing
-                  ? 'Processing...'
+                {isDragReject
+                  ? 'Only PDFs and images can be uploaded'
                   : isDragActive
-                  ? 'Drop the file here'
-                  : 'Drag & drop a PDF or image here'}
+                  ? 'Drop the files here'
+                  : 'Drag & drop PDFs or images here'}
               </p>
               <p className="text-sm text-gray-500 mt-1">
-                or click to browse files
+                or click to browse files, or paste with Ctrl+V
               </p>
             </div>
             <div className="flex gap-4 text-sm text-gray-600">
@@ -78,27 +282,166 @@ export function FileUpload({ onUpload, isProcessing }: FileUploadProps) {
                 <span>Images</span>
               </div>
             </div>
+            <p className="text-xs text-gray-500">
+              Up to {UPLOAD_LIMITS.maxFileSizeMb} MB and {UPLOAD_LIMITS.maxPdfPages} pages per file
+            </p>
           </div>
+
+          {checkingCount > 0 && (
+            <p className="mt-4 flex items-center justify-center gap-2 text-sm text-gray-600">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Checking {checkingCount} {checkingCount === 1 ? 'file' : 'files'}…
+            </p>
+          )}
+
+          {rejectedFiles.length > 0 && (
+            <div
+              className="mt-4 rounded-lg border border-red-200 bg-red-50 p-3 text-left text-sm text-red-800 cursor-default"
+              onClick={e => e.stopPropagation()}
+            >
+              <div className="flex items-start gap-2">
+                <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium">
+                    {rejectedFiles.length === 1
+                      ? '1 file was not added'
+                      : `${rejectedFiles.length} files were not added`}
+                  </p>
+                  <ul className="mt-1 space-y-0.5">
+                    {rejectedFiles.map((rejected, index) => (
+                      <li key={`${rejected.name}-${index}`} className="break-words">
+                        <span className="font-medium">{rejected.name}</span>: {rejected.error}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-6 px-1 text-red-800 hover:bg-red-100"
+                  onClick={() => setRejectedFiles([])}
+                  title="Dismiss"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
         </div>
 
-        {selectedFile && !isProcessing && (
-          <div className="mt-4 flex items-center justify-between p-4 bg-gray-50 rounded-lg">
-            <div className="flex items-center gap-3">
-              {selectedFile.type.startsWith('image/') ? (
-                <Image className="h-5 w-5 text-blue-500" />
+        {isCameraSupported() && (
+          <div className="mt-3 flex justify-center">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setIsCameraOpen(true)}
+              disabled={disabled || isPreparing}
+            >
+              <Camera className="h-4 w-4 mr-2" />
+              Take Photo
+            </Button>
+          </div>
+        )}
+
+        {selectedFiles.length > 0 && !disabled && (
+          <div className="mt-4 p-4 bg-gray-50 rounded-lg space-y-3">
+            <ul className="space-y-2 max-h-48 overflow-auto">
+              {selectedFiles.map(({ file, pages, edits, pageCount }, index) => (
+                <li key={`${file.name}-${index}`} className="flex items-center gap-3">
+                  {file.type.startsWith('image/') ? (
+                    <ImageThumbnail file={file} />
+                  ) : (
+                    <FileText className="h-5 w-5 text-red-500 shrink-0" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-sm truncate">{file.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {(file.size / 1024 / 1024).toFixed(2)} MB
+                      {pageCount !== undefined && ` · ${pageCount} ${pageCount === 1 ? 'page' : 'pages'}`}
+                    </p>
+                    {exceedsPageLimit(selectedFiles[index]) && (
+                      <p className="text-xs text-red-700">
+                        {tooManyPagesMessage(pages?.length ?? pageCount ?? 0)}
+                      </p>
+                    )}
+                    {exceedsSizeLimit(selectedFiles[index]) && (
+                      <p className="text-xs text-red-700">{tooLargePdfMessage(file.size)}</p>
+                    )}
+                  </div>
+                  {isPdf(file) && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setPickingPages(index)}
+                      disabled={isPreparing}
+                      title="Choose the pages to upload"
+                    >
+                      <Scissors className="h-4 w-4 mr-1" />
+                      {pages ? `Pages ${formatPageRanges(pages)}` : 'All pages'}
+                    </Button>
+                  )}
+                  {file.type.startsWith('image/') && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setEditingImage(index)}
+                      disabled={isPreparing}
+                      title="Rotate, crop, straighten or clean up the image"
+                    >
+                      <SlidersHorizontal className="h-4 w-4 mr-1" />
+                      {edits ? 'Adjusted' : 'Adjust'}
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleRemoveSelected(index)}
+                    disabled={isPreparing}
+                    title="Remove from selection"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+            {prepareError && <p className="text-sm text-red-700">{prepareError}</p>}
+            <Button
+              className="w-full"
+              onClick={handleUpload}
+              disabled={isPreparing || checkingCount > 0 || selectedFiles.some(cannotUpload)}
+            >
+              {isPreparing ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Preparing…
+                </>
               ) : (
-                <FileText className="h-5 w-5 text-red-500" />
+                <>
+                  Upload & Process
+                  {selectedFiles.length > 1 && ` (${selectedFiles.length})`}
+                </>
               )}
-              <div>
-                <p className="font-medium text-sm">{selectedFile.name}</p>
-                <p className="text-xs text-gray-500">
-                  {(selectedFile.size / 1024 / 1024).toFixed(2)} MB
-                </p>
-              </div>
-            </div>
-            <Button onClick={handleUpload}>Upload & Process</Button>
+            </Button>
           </div>
         )}
+
+        <PageRangeDialog
+          file={pickingPages !== null ? selectedFiles[pickingPages]?.file ?? null : null}
+          pages={pickingPages !== null ? selectedFiles[pickingPages]?.pages : undefined}
+          onApply={handleApplyPages}
+          onCancel={() => setPickingPages(null)}
+        />
+        <ImageEditDialog
+          file={editingImage !== null ? selectedFiles[editingImage]?.file ?? null : null}
+          edits={editingImage !== null ? selectedFiles[editingImage]?.edits : undefined}
+          onApply={handleApplyEdits}
+          onCancel={() => setEditingImage(null)}
+        />
+        <CameraCaptureDialog
+          open={isCameraOpen}
+          onCapture={handleCapture}
+          onOpenChange={setIsCameraOpen}
+        />
       </CardContent>
     </Card>
   );
@@ -0,0 +1,359 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  Columns2,
+  Crop,
+  Loader2,
+  RotateCcw,
+  RotateCw,
+  WandSparkles,
+} from 'lucide-react';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Slider } from './ui/slider';
+import { Switch } from './ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import {
+  CropRect,
+  detectSkew,
+  hasEdits,
+  ImageEdits,
+  loadImage,
+  MAX_DESKEW_DEGREES,
+  NO_EDITS,
+  otsuThreshold,
+  renderEdits,
+} from '../image/preprocess';
+
+interface ImageEditDialogProps {
+  file: File | null; // Open while set
+  edits?: ImageEdits;
+  onApply: (edits: ImageEdits | undefined) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_MAX_PX = 1000;
+// Smaller drags are taken as clicks
+const MIN_CROP_FRACTION = 0.02;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+export function ImageEditDialog({ file, edits: initialEdits, onApply, onCancel }: ImageEditDialogProps) {
+  const [image, setImage] = useState<ImageBitmap | null>(null);
+  const [originalUrl, setOriginalUrl] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [edits, setEdits] = useState<ImageEdits>(NO_EDITS);
+  const [isCropping, setIsCropping] = useState(false);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [dragRect, setDragRect] = useState<CropRect | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    if (!file) return;
+    let cancelled = false;
+    let loaded: ImageBitmap | null = null;
+    const url = URL.createObjectURL(file);
+    setImage(null);
+    setLoadError(null);
+    setOriginalUrl(url);
+    setEdits(initialEdits ?? NO_EDITS);
+    setIsCropping(false);
+    setDragRect(null);
+    setIsComparing(false);
+
+    loadImage(file)
+      .then(bitmap => {
+        loaded = bitmap;
+        if (cancelled) bitmap.close();
+        else setImage(bitmap);
+      })
+      .catch(error => {
+        if (!cancelled) {
+          setLoadError(error instanceof Error ? error.message : String(error));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      loaded?.close();
+      URL.revokeObjectURL(url);
+    };
+    // The edits are only read when a file is opened
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [file]);
+
+  // While cropping, the whole rotated image is shown to drag over
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!image || !canvas) return;
+    const rendered = renderEdits(
+      image,
+      isCropping ? { ...edits, crop: null } : edits,
+      PREVIEW_MAX_PX
+    );
+    canvas.width = rendered.width;
+    canvas.height = rendered.height;
+    canvas.getContext('2d')?.drawImage(rendered, 0, 0);
+  }, [image, edits, isCropping]);
+
+  const update = (changes: Partial<ImageEdits>) => setEdits(prev => ({ ...prev, ...changes }));
+
+  // A crop is relative to the rotated image, so quarter turns drop it
+  const rotate = (direction: 1 | -1) =>
+    setEdits(prev => ({
+      ...prev,
+      quarterTurns: ((prev.quarterTurns + direction + 4) % 4) as ImageEdits['quarterTurns'],
+      crop: null,
+    }));
+
+  const handleAutoDeskew = () => {
+    if (image) update({ angle: detectSkew(image, edits.quarterTurns) });
+  };
+
+  const handleThresholdChange = (enabled: boolean) => {
+    if (!enabled || !image) {
+      update({ threshold: null });
+      return;
+    }
+    // Start from the value that best separates ink from paper
+    const preview = renderEdits(image, { ...edits, threshold: null }, PREVIEW_MAX_PX);
+    const pixels = preview
+      .getContext('2d', { willReadFrequently: true })
+      ?.getImageData(0, 0, preview.width, preview.height);
+    update({ threshold: pixels ? otsuThreshold(pixels.data) : 128 });
+  };
+
+  const pointerPosition = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: clamp01((e.clientX - rect.left) / rect.width),
+      y: clamp01((e.clientY - rect.top) / rect.height),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!isCropping) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragStart(pointerPosition(e));
+    setDragRect(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStart) return;
+    const { x, y } = pointerPosition(e);
+    setDragRect({
+      x: Math.min(x, dragStart.x),
+      y: Math.min(y, dragStart.y),
+      width: Math.abs(x - dragStart.x),
+      height: Math.abs(y - dragStart.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (!dragStart) return;
+    setDragStart(null);
+    if (dragRect && dragRect.width > MIN_CROP_FRACTION && dragRect.height > MIN_CROP_FRACTION) {
+      update({ crop: dragRect });
+      setIsCropping(false);
+    }
+    setDragRect(null);
+  };
+
+  const shownCrop = dragRect ?? (isCropping ? edits.crop : null);
+
+  return (
+    <Dialog open={file !== null} onOpenChange={open => !open && onCancel()}>
+      <DialogContent className="sm:max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Adjust image</DialogTitle>
+          <DialogDescription>
+            The adjusted image of {file?.name} is uploaded instead of the original,
+            which is kept unchanged.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loadError ? (
+          <p className="text-sm text-red-700">Could not open the image: {loadError}</p>
+        ) : !image ? (
+          <div className="flex justify-center py-12 text-gray-400">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="flex gap-4">
+            <div
+              className={`flex-1 grid gap-2 max-h-[65vh] overflow-auto rounded-lg bg-gray-100 p-2 ${
+                isComparing ? 'grid-cols-2' : 'grid-cols-1'
+              }`}
+            >
+              {isComparing && originalUrl && (
+                <figure className="space-y-1">
+                  <img src={originalUrl} alt={file?.name} className="mx-auto max-w-full shadow" />
+                  <figcaption className="text-center text-xs text-gray-500">Original</figcaption>
+                </figure>
+              )}
+              <figure className="space-y-1">
+                <div
+                  className={`relative mx-auto w-fit select-none ${isCropping ? 'cursor-crosshair touch-none' : ''}`}
+                  onPointerDown={handlePointerDown}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                >
+                  <canvas ref={canvasRef} className="block max-w-full shadow" />
+                  {shownCrop && (
+                    <div
+                      className="absolute border-2 border-primary bg-primary/10"
+                      style={{
+                        left: `${shownCrop.x * 100}%`,
+                        top: `${shownCrop.y * 100}%`,
+                        width: `${shownCrop.width * 100}%`,
+                        height: `${shownCrop.height * 100}%`,
+                      }}
+                    />
+                  )}
+                </div>
+                {isComparing && (
+                  <figcaption className="text-center text-xs text-gray-500">Adjusted</figcaption>
+                )}
+              </figure>
+            </div>
+
+            <div className="w-60 shrink-0 space-y-5 text-sm">
+              <div className="space-y-2">
+                <Label>Rotate</Label>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => rotate(-1)} title="Rotate left">
+                    <RotateCcw className="h-4 w-4" />
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => rotate(1)} title="Rotate right">
+                    <RotateCw className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Straighten</Label>
+                  <span className="tabular-nums text-gray-600">{edits.angle.toFixed(1)}°</span>
+                </div>
+                <Slider
+                  min={-MAX_DESKEW_DEGREES}
+                  max={MAX_DESKEW_DEGREES}
+                  step={0.1}
+                  value={[edits.angle]}
+                  onValueChange={([angle]) => update({ angle })}
+                />
+                <Button size="sm" variant="outline" onClick={handleAutoDeskew}>
+                  <WandSparkles className="h-4 w-4 mr-2" />
+                  Auto-straighten
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Crop</Label>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant={isCropping ? 'secondary' : 'outline'}
+                    onClick={() => setIsCropping(c => !c)}
+                  >
+                    <Crop className="h-4 w-4 mr-2" />
+                    {isCropping ? 'Cancel crop' : 'Crop'}
+                  </Button>
+                  {edits.crop && (
+                    <Button size="sm" variant="ghost" onClick={() => update({ crop: null })}>
+                      Reset
+                    </Button>
+                  )}
+                </div>
+                {isCropping && (
+                  <p className="text-xs text-gray-500">Drag over the image to select the area to keep</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Contrast</Label>
+                  <span className="tabular-nums text-gray-600">
+                    {Math.round(edits.contrast * 100)}%
+                  </span>
+                </div>
+                <Slider
+                  min={0.5}
+                  max={2}
+                  step={0.05}
+                  value={[edits.contrast]}
+                  onValueChange={([contrast]) => update({ contrast })}
+                />
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="image-grayscale"
+                  checked={edits.grayscale}
+                  onCheckedChange={grayscale => update({ grayscale })}
+                />
+                <Label htmlFor="image-grayscale">Grayscale</Label>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="image-threshold"
+                    checked={edits.threshold !== null}
+                    onCheckedChange={handleThresholdChange}
+                  />
+                  <Label htmlFor="image-threshold">Black &amp; white</Label>
+                  {edits.threshold !== null && (
+                    <span className="ml-auto tabular-nums text-gray-600">{edits.threshold}</span>
+                  )}
+                </div>
+                {edits.threshold !== null && (
+                  <Slider
+                    min={0}
+                    max={255}
+                    step={1}
+                    value={[edits.threshold]}
+                    onValueChange={([threshold]) => update({ threshold })}
+                  />
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="items-center">
+          <div className="mr-auto flex gap-2">
+            <Button
+              variant={isComparing ? 'secondary' : 'ghost'}
+              onClick={() => setIsComparing(c => !c)}
+              disabled={!image}
+            >
+              <Columns2 className="h-4 w-4 mr-2" />
+              Compare
+            </Button>
+            <Button
+              variant="ghost"
+              onClick={() => setEdits(NO_EDITS)}
+              disabled={!image || !hasEdits(edits)}
+            >
+              Reset all
+            </Button>
+          </div>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={() => onApply(hasEdits(edits) ? edits : undefined)} disabled={!image}>
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,163 @@
+import { useEffect, useState } from 'react';
+import { Loader2, LogIn } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { api } from '../api/client';
+import { describeError } from '../api/errors';
+import { AuthCredentials, AuthScheme } from '../api/auth';
+
+interface LoginDialogProps {
+  open: boolean;
+  onLogin: (credentials: AuthCredentials) => void;
+  onCancel: () => void;
+}
+
+export function LoginDialog({ open, onLogin, onCancel }: LoginDialogProps) {
+  const [mode, setMode] = useState<'password' | 'token'>('password');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [token, setToken] = useState('');
+  const [scheme, setScheme] = useState<AuthScheme>('bearer');
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Never keep a password around between prompts
+  useEffect(() => {
+    if (!open) {
+      setPassword('');
+      setError(null);
+    }
+  }, [open]);
+
+  const canSubmit =
+    mode === 'password' ? username.trim() !== '' && password !== '' : token.trim() !== '';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    if (mode === 'token') {
+      onLogin({ scheme, token: token.trim() });
+      return;
+    }
+
+    setIsSigningIn(true);
+    setError(null);
+    try {
+      const result = await api.login(username.trim(), password);
+      onLogin({ scheme: 'bearer', token: result.access_token, username: username.trim() });
+    } catch (err) {
+      setError(describeError(err).message);
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={isOpen => !isOpen && onCancel()}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Sign In</DialogTitle>
+            <DialogDescription>
+              The extraction server requires authentication. Your request
+              will continue once you are signed in.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Tabs value={mode} onValueChange={v => setMode(v as 'password' | 'token')}>
+            <TabsList className="grid grid-cols-2">
+              <TabsTrigger value="password">Username</TabsTrigger>
+              <TabsTrigger value="token">API Key / Token</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="password" className="space-y-3 pt-2">
+              <div className="space-y-2">
+                <Label htmlFor="login-username">Username</Label>
+                <Input
+                  id="login-username"
+                  autoComplete="username"
+                  value={username}
+                  onChange={e => setUsername(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="login-password">Password</Label>
+                <Input
+                  id="login-password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={e => setPassword(e.target.value)}
+                />
+              </div>
+            </TabsContent>
+
+            <TabsContent value="token" className="space-y-3 pt-2">
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={scheme === 'bearer' ? 'default' : 'outline'}
+                  onClick={() => setScheme('bearer')}
+                >
+                  Bearer token
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={scheme === 'api-key' ? 'default' : 'outline'}
+                  onClick={() => setScheme('api-key')}
+                >
+                  API key
+                </Button>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="login-token">
+                  {scheme === 'bearer' ? 'Token' : 'API key'}
+                </Label>
+                <Input
+                  id="login-token"
+                  type="password"
+                  autoComplete="off"
+                  value={token}
+                  onChange={e => setToken(e.target.value)}
+                />
+              </div>
+            </TabsContent>
+          </Tabs>
+
+          {error && (
+            <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded p-3">
+              {error}
+            </p>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!canSubmit || isSigningIn}>
+              {isSigningIn ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <LogIn className="h-4 w-4 mr-2" />
+              )}
+              Sign In
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
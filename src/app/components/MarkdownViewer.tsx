@@ -1,54 +1,155 @@
-import { useState, useEffect } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { Eye, Edit, Save, X, Download } from 'lucide-react';
+import { AlertTriangle, Eye, Edit, Save, X, Download, History, RotateCcw, Undo2, Redo2 } from 'lucide-react';
 import { Button } from './ui/button';
+import { Input } from './ui/input';
 import { Textarea } from './ui/textarea';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { MarkdownFile } from '../types';
+import { ORIGINAL_VERSION_ID, VersionTimeline, versionLabel } from './VersionTimeline';
+import { undoShortcut } from '../hooks/useUndoableState';
+import { DraftKey, useEditSession } from '../hooks/useEditSession';
 
 interface MarkdownViewerProps {
   markdown: MarkdownFile;
-  onSave: (content: string) => void;
+  draftKey?: DraftKey; // Keeps unsaved edits when the viewer unmounts
+  onSave: (content: string, note?: string) => void;
+  onRestore?: (versionId: string) => void;
+  // Text of the section being read: scrolled to in Preview, or holding the
+  // cursor in Source
+  onSectionChange?: (section: string) => void;
 }
 
-export function MarkdownViewer({ markdown, onSave }: MarkdownViewerProps) {
-  const [isEditing, setIsEditing] = useState(false);
-  const [editContent, setEditContent] = useState(markdown.editedContent || markdown.content);
-  const [viewMode, setViewMode] = useState<'preview' | 'source'>('preview');
+// A heading this close below the top of the preview counts as scrolled to
+const SECTION_OFFSET_PX = 40;
 
-  // Update editContent when markdown prop changes
-  useEffect(() => {
-    setEditContent(markdown.editedContent || markdown.content);
-  }, [markdown.content, markdown.editedContent]);
-
-    const handleDownload = () => {
-      const content = markdown.editedContent || markdown.content;
-      const blob = new Blob([content], { type: 'text/markdown' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${markdown.filename || 'document'}.md`;
-      a.click();
-      URL.revokeObjectURL(url);
+// Character offsets at which each heading line starts
+const headingOffsets = (content: string) =>
+  [...content.matchAll(/^#{1,6}\s/gm)].map(match => match.index ?? 0);
+
+// The section (heading and body) around `offset`
+const sectionAt = (content: string, offset: number) => {
+  const offsets = headingOffsets(content);
+  const start = [...offsets].reverse().find(o => o <= offset) ?? 0;
+  const end = offsets.find(o => o > offset) ?? content.length;
+  return content.slice(start, end);
+};
+
+export function MarkdownViewer({
+  markdown,
+  draftKey,
+  onSave,
+  onRestore,
+  onSectionChange,
+}: MarkdownViewerProps) {
+  // Lives here rather than in the textarea, so history survives switching
+  // between Preview and Source
+  const savedContent = markdown.editedContent || markdown.content;
+  const session = useEditSession(draftKey, savedContent, savedContent);
+  const { isEditing, edit, note: versionNote, setNote: setVersionNote } = session;
+  const editContent = edit.value;
+  // A resumed edit continues in the source view
+  const [viewMode, setViewMode] = useState<'preview' | 'source'>(
+    isEditing ? 'source' : 'preview'
+  );
+  const [showHistory, setShowHistory] = useState(false);
+  const [previewVersionId, setPreviewVersionId] = useState<string | null>(null);
+  const versions = markdown.versions ?? [];
+
+  const versionContent = (versionId: string) =>
+    versionId === ORIGINAL_VERSION_ID
+      ? markdown.content
+      : versions.find(version => version.id === versionId)?.content ?? markdown.content;
+
+  const downloadMarkdown = (content: string, filename: string) => {
+    const blob = new Blob([content], { type: 'text/markdown' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDownload = () => {
+    downloadMarkdown(
+      savedContent,
+      `${markdown.filename || 'document'}.md`
+    );
+  };
+
+  const handleDownloadVersion = (versionId: string) => {
+    downloadMarkdown(
+      versionContent(versionId),
+      `${markdown.filename || 'document'}_${versionLabel(versions, versionId)}.md`
+    );
+  };
+
+  const handleRestore = (versionId: string) => {
+    onRestore?.(versionId);
+    setPreviewVersionId(null);
   };
 
   const handleSave = () => {
-    onSave(editContent);
-    setIsEditing(false);
+    onSave(editContent, versionNote.trim() || undefined);
+    session.end();
   };
 
   const handleCancel = () => {
-    setEditContent(markdown.editedContent || markdown.content);
-    setIsEditing(false);
+    session.end();
+  };
+
+  // Bursts of typing are coalesced into one undo step
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!isEditing) return;
+    const action = undoShortcut(e);
+    if (!action) return;
+    e.preventDefault();
+    if (action === 'undo') edit.undo();
+    else edit.redo();
   };
 
   const handleEdit = () => {
-    setIsEditing(true);
+    setPreviewVersionId(null);
+    session.start(savedContent);
     setViewMode('source'); // Switch to source view when editing
   };
 
-  const displayContent = markdown.editedContent || markdown.content;
+  const handleResume = () => {
+    setPreviewVersionId(null);
+    session.resume();
+    setViewMode('source');
+  };
+
+  const displayContent = previewVersionId
+    ? versionContent(previewVersionId)
+    : savedContent;
+  const shownContent = isEditing ? editContent : displayContent;
+
+  const previewRef = useRef<HTMLDivElement>(null);
+  const caretRef = useRef(0); // Cursor position in Source
+
+  const reportSection = useCallback(() => {
+    if (!onSectionChange) return;
+    if (viewMode === 'source') {
+      onSectionChange(sectionAt(shownContent, caretRef.current));
+      return;
+    }
+
+    const container = previewRef.current;
+    if (!container) return;
+    const top = container.getBoundingClientRect().top + SECTION_OFFSET_PX;
+    const passed = [...container.querySelectorAll('h1, h2, h3, h4, h5, h6')].filter(
+      heading => heading.getBoundingClientRect().top <= top
+    ).length;
+    const offset = passed > 0 ? headingOffsets(shownContent)[passed - 1] ?? 0 : 0;
+    onSectionChange(sectionAt(shownContent, offset));
+  }, [onSectionChange, viewMode, shownContent]);
+
+  useEffect(() => {
+    reportSection();
+  }, [reportSection]);
 
   return (
     <div className="space-y-4">
@@ -69,6 +170,30 @@ export function MarkdownViewer({ markdown, onSave }: MarkdownViewerProps) {
         <div className="flex gap-2">
           {isEditing ? (
             <>
+              <Input
+                value={versionNote}
+                onChange={e => setVersionNote(e.target.value)}
+                placeholder="Version note (optional)"
+                className="h-8 w-56"
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={edit.undo}
+                disabled={!edit.canUndo}
+                title="Undo (Ctrl+Z)"
+              >
+                <Undo2 className="h-4 w-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={edit.redo}
+                disabled={!edit.canRedo}
+                title="Redo (Ctrl+Shift+Z)"
+              >
+                <Redo2 className="h-4 w-4" />
+              </Button>
               <Button size="sm" variant="outline" onClick={handleCancel}>
                 <X className="h-4 w-4 mr-2" />
                 Cancel
@@ -88,6 +213,14 @@ export function MarkdownViewer({ markdown, onSave }: MarkdownViewerProps) {
       // </div>
         ) : (
               <>
+                <Button
+                  size="sm"
+                  variant={showHistory ? 'default' : 'outline'}
+                  onClick={() => setShowHistory(v => !v)}
+                >
+                  <History className="h-4 w-4 mr-2" />
+                  History ({versions.length + 1})
+                </Button>
                 <Button size="sm" variant="outline" onClick={handleDownload}>
                   <Download className="h-4 w-4 mr-2" />
                   Download
@@ -101,22 +234,78 @@ export function MarkdownViewer({ markdown, onSave }: MarkdownViewerProps) {
           </div>
         </div>
 
+      {showHistory && !isEditing && (
+        <VersionTimeline
+          versions={versions}
+          previewId={previewVersionId}
+          onPreview={setPreviewVersionId}
+          onRestore={handleRestore}
+          onDownload={handleDownloadVersion}
+        />
+      )}
+
+      {session.isOutdated && (
+        <div className="flex items-center justify-between gap-3 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-900">
+          <span className="flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            This document changed after your unsaved edits were started.
+            Continuing them replaces the current text when you save.
+          </span>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={session.end}>
+              Discard Edits
+            </Button>
+            <Button size="sm" onClick={handleResume}>
+              Continue Editing
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {previewVersionId && !isEditing && (
+        <div className="flex items-center justify-between gap-3 p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-900">
+          <span>
+            Previewing {versionLabel(versions, previewVersionId)} (read-only)
+          </span>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={() => setPreviewVersionId(null)}>
+              Back to Current
+            </Button>
+            {onRestore && (
+              <Button size="sm" onClick={() => handleRestore(previewVersionId)}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Restore
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
       {viewMode === 'preview' ? (
-        <div className="prose prose-table:border-collapse max-w-none p-6 bg-white border rounded-lg max-h-[600px] overflow-auto
+        <div
+          ref={previewRef}
+          onScroll={reportSection}
+          className="prose prose-table:border-collapse max-w-none p-6 bg-white border rounded-lg max-h-[600px] overflow-auto
           [&_table]:w-full [&_table]:border-collapse [&_table]:border [&_table]:border-gray-300
           [&_th]:border [&_th]:border-gray-300 [&_th]:bg-gray-100 [&_th]:px-4 [&_th]:py-2 [&_th]:text-left [&_th]:font-semibold
           [&_td]:border [&_td]:border-gray-300 [&_td]:px-4 [&_td]:py-2
           [&_tr:nth-child(even)]:bg-gray-50
-        ">
+        "
+        >
           <ReactMarkdown remarkPlugins={[remarkGfm]}>
-            {displayContent}
+            {shownContent}
           </ReactMarkdown>
         </div>
       ) : (
         <div className="border rounded-lg overflow-hidden">
           <Textarea
-            value={isEditing ? editContent : displayContent}
-            onChange={(e) => setEditContent(e.target.value)}
+            value={shownContent}
+            onChange={(e) => edit.set(e.target.value, 'text')}
+            onKeyDown={handleKeyDown}
+            onSelect={e => {
+              caretRef.current = e.currentTarget.selectionStart;
+              reportSection();
+            }}
             readOnly={!isEditing}
             className={`font-mono text-sm min-h-[600px] border-0 focus-visible:ring-0 ${
               !isEditing ? 'bg-gray-50 cursor-default' : 'bg-white'
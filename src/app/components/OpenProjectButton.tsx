@@ -0,0 +1,54 @@
+import { useRef, useState } from 'react';
+import { FolderOpen, Loader2 } from 'lucide-react';
+import { Button } from './ui/button';
+
+interface OpenProjectButtonProps {
+  onOpen: (files: File[]) => Promise<void>;
+}
+
+// Picks an exported .zip bundle, or loose .md and .csv files
+export function OpenProjectButton({ onOpen }: OpenProjectButtonProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isOpening, setIsOpening] = useState(false);
+
+  const handleChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    // Allow picking the same files again
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setIsOpening(true);
+    try {
+      await onOpen(files);
+    } finally {
+      setIsOpening(false);
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".zip,.md,.markdown,.csv"
+        multiple
+        className="hidden"
+        onChange={handleChange}
+      />
+      <Button
+        size="sm"
+        variant="ghost"
+        onClick={() => inputRef.current?.click()}
+        disabled={isOpening}
+        title="Open an exported .zip, or .md and .csv files"
+      >
+        {isOpening ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        ) : (
+          <FolderOpen className="h-4 w-4 mr-2" />
+        )}
+        Open Project
+      </Button>
+    </>
+  );
+}
@@ -0,0 +1,242 @@
+import { useEffect, useRef, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { getPageSize, loadPdfByRanges, PDFDocumentProxy, renderPage } from '../pdf/pdfjs';
+import { formatPageRanges, parsePageRanges } from '../pdf/pageRanges';
+
+interface PageRangeDialogProps {
+  file: File | null; // Open while set
+  pages?: number[]; // Current selection; all pages when missing
+  onApply: (pages: number[] | undefined) => void;
+  onCancel: () => void;
+}
+
+const THUMBNAIL_WIDTH_PX = 110;
+
+// Rendered only once scrolled into view: reports can have hundreds of pages
+function PageThumbnail({ pdf, pageNumber }: { pdf: PDFDocumentProxy; pageNumber: number }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) {
+        setIsVisible(true);
+        observer.disconnect();
+      }
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!isVisible || !canvas) return;
+    let cancelled = false;
+    let cancelRender = () => {};
+
+    getPageSize(pdf, pageNumber)
+      .then(size => renderPage(pdf, pageNumber, canvas, THUMBNAIL_WIDTH_PX / size.width))
+      .then(task => {
+        if (cancelled) task.cancel();
+        else cancelRender = () => task.cancel();
+        return task.promise;
+      })
+      .catch(() => {
+        // Cancelled, or the document was closed; the placeholder stays
+      });
+
+    return () => {
+      cancelled = true;
+      cancelRender();
+    };
+  }, [pdf, pageNumber, isVisible]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="bg-white"
+      style={{ width: THUMBNAIL_WIDTH_PX, minHeight: THUMBNAIL_WIDTH_PX * 1.3 }}
+    />
+  );
+}
+
+export function PageRangeDialog({ file, pages, onApply, onCancel }: PageRangeDialogProps) {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [rangeText, setRangeText] = useState('');
+  const [rangeError, setRangeError] = useState<string | null>(null);
+  const lastClicked = useRef<number | null>(null);
+
+  const pageCount = pdf?.numPages ?? 0;
+
+  useEffect(() => {
+    if (!file) return;
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+    setPdf(null);
+    setLoadError(null);
+
+    loadPdfByRanges(file)
+      .then(doc => {
+        loaded = doc;
+        if (cancelled) {
+          doc.destroy();
+          return;
+        }
+        const initial = pages ?? Array.from({ length: doc.numPages }, (_, i) => i + 1);
+        setSelected(new Set(initial));
+        setRangeText(formatPageRanges(initial));
+        setRangeError(null);
+        lastClicked.current = null;
+        setPdf(doc);
+      })
+      .catch(error => {
+        if (!cancelled) {
+          setLoadError(error instanceof Error ? error.message : String(error));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+    // The selection is only read when a file is opened
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [file]);
+
+  const updateSelection = (next: Set<number>) => {
+    setSelected(next);
+    setRangeText(next.size ? formatPageRanges([...next]) : '');
+    setRangeError(null);
+  };
+
+  // Shift-click selects or clears everything since the last page clicked
+  const handleThumbnailClick = (page: number, shiftKey: boolean) => {
+    const next = new Set(selected);
+    const select = !selected.has(page);
+    const from = shiftKey && lastClicked.current !== null ? lastClicked.current : page;
+    for (let p = Math.min(from, page); p <= Math.max(from, page); p++) {
+      if (select) next.add(p);
+      else next.delete(p);
+    }
+    lastClicked.current = page;
+    updateSelection(next);
+  };
+
+  const applyRangeText = () => {
+    try {
+      updateSelection(new Set(parsePageRanges(rangeText, pageCount)));
+    } catch (error) {
+      setRangeError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleApply = () => {
+    let pagesToKeep: number[];
+    try {
+      pagesToKeep = parsePageRanges(rangeText, pageCount);
+    } catch (error) {
+      setRangeError(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    // Keeping every page needs no trimming
+    onApply(pagesToKeep.length === pageCount ? undefined : pagesToKeep);
+  };
+
+  return (
+    <Dialog open={file !== null} onOpenChange={open => !open && onCancel()}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Select pages</DialogTitle>
+          <DialogDescription>
+            Only the selected pages of {file?.name} are uploaded and processed.
+            Shift-click to select a range.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loadError ? (
+          <p className="text-sm text-red-700">Could not open the PDF: {loadError}</p>
+        ) : !pdf ? (
+          <div className="flex justify-center py-12 text-gray-400">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="page-ranges">Pages</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="page-ranges"
+                  value={rangeText}
+                  onChange={e => setRangeText(e.target.value)}
+                  onBlur={applyRangeText}
+                  onKeyDown={e => e.key === 'Enter' && applyRangeText()}
+                  placeholder={`e.g. 1-5, 8 (of ${pageCount})`}
+                />
+                <Button
+                  variant="outline"
+                  onClick={() =>
+                    updateSelection(new Set(Array.from({ length: pageCount }, (_, i) => i + 1)))
+                  }
+                >
+                  All
+                </Button>
+                <Button variant="outline" onClick={() => updateSelection(new Set())}>
+                  None
+                </Button>
+              </div>
+              {rangeError && <p className="text-xs text-red-700">{rangeError}</p>}
+            </div>
+
+            <div className="grid grid-cols-[repeat(auto-fill,minmax(130px,1fr))] gap-3 max-h-[55vh] overflow-auto p-1">
+              {Array.from({ length: pageCount }, (_, i) => i + 1).map(page => (
+                <button
+                  key={page}
+                  type="button"
+                  onClick={e => handleThumbnailClick(page, e.shiftKey)}
+                  className={`flex flex-col items-center gap-1 rounded-lg border-2 p-2 transition-colors ${
+                    selected.has(page)
+                      ? 'border-primary bg-primary/5'
+                      : 'border-transparent opacity-50 hover:opacity-100'
+                  }`}
+                  aria-pressed={selected.has(page)}
+                >
+                  <PageThumbnail pdf={pdf} pageNumber={page} />
+                  <span className="text-xs text-gray-600">{page}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="items-center">
+          {pdf && (
+            <p className="mr-auto text-sm text-gray-600">
+              {selected.size} of {pageCount} pages selected
+            </p>
+          )}
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={!pdf || selected.size === 0}>
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
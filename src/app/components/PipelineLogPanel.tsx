@@ -0,0 +1,207 @@
+import { useState, useSyncExternalStore } from 'react';
+import { ChevronDown, ChevronRight, FileJson, Trash2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent } from './ui/card';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from './ui/collapsible';
+import {
+  clearLog,
+  exportLog,
+  getLogEntries,
+  isDebugEnabled,
+  PipelineLogEntry,
+  setDebugEnabled,
+  subscribeLog,
+} from '../api/pipelineLog';
+
+const formatSize = (bytes?: number) => {
+  if (bytes === undefined) return '';
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+};
+
+const formatParams = (params?: Record<string, string>) =>
+  params
+    ? Object.entries(params)
+        .map(([key, value]) => `${key}=${value}`)
+        .join(' ')
+    : '';
+
+const statusClass = (entry: PipelineLogEntry) => {
+  if (entry.error || entry.status === null) return 'text-red-600';
+  if (entry.status !== undefined && entry.status >= 400) return 'text-red-600';
+  if (entry.kind === 'table' && entry.issueCount) return 'text-amber-600';
+  return 'text-gray-700';
+};
+
+function LogRow({ entry }: { entry: PipelineLogEntry }) {
+  const time = new Date(entry.timestamp).toLocaleTimeString();
+
+  if (entry.kind === 'table') {
+    return (
+      <tr className="border-t">
+        <td className="px-2 py-1 text-gray-500 whitespace-nowrap">{time}</td>
+        <td className="px-2 py-1" colSpan={2}>
+          {entry.filename}
+        </td>
+        <td className={`px-2 py-1 ${statusClass(entry)}`} colSpan={4}>
+          {entry.headerCount} columns × {entry.rowCount} rows
+          {entry.issueCount ? ` · ${entry.issueCount} malformed` : ''}
+        </td>
+      </tr>
+    );
+  }
+
+  if (entry.kind === 'event') {
+    return (
+      <tr className="border-t bg-gray-50">
+        <td className="px-2 py-1 text-gray-500 whitespace-nowrap">{time}</td>
+        <td className={`px-2 py-1 ${statusClass(entry)}`} colSpan={6}>
+          {entry.message}
+          {entry.error && ` — ${entry.error}`}
+        </td>
+      </tr>
+    );
+  }
+
+  return (
+    <tr className="border-t">
+      <td className="px-2 py-1 text-gray-500 whitespace-nowrap">{time}</td>
+      <td className="px-2 py-1 font-medium whitespace-nowrap">
+        {entry.method} {entry.endpoint}
+      </td>
+      <td className="px-2 py-1 text-gray-600 break-all">
+        {formatParams(entry.params)}
+      </td>
+      <td className={`px-2 py-1 ${statusClass(entry)}`}>
+        {entry.status === undefined ? '…' : entry.status ?? 'failed'}
+        {entry.error && (
+          <span className="block text-xs">{entry.error}</span>
+        )}
+      </td>
+      <td className="px-2 py-1 text-gray-600 whitespace-nowrap">
+        {formatSize(entry.requestBytes)}
+      </td>
+      <td className="px-2 py-1 text-gray-600 whitespace-nowrap">
+        {formatSize(entry.responseBytes)}
+      </td>
+      <td className="px-2 py-1 text-gray-600 whitespace-nowrap">
+        {entry.durationMs !== undefined ? `${entry.durationMs} ms` : ''}
+      </td>
+    </tr>
+  );
+}
+
+export function PipelineLogPanel() {
+  const [isOpen, setIsOpen] = useState(false);
+  const entries = useSyncExternalStore(subscribeLog, getLogEntries);
+  const debugEnabled = useSyncExternalStore(subscribeLog, isDebugEnabled);
+
+  const failedCount = entries.filter(
+    entry => entry.error || (entry.status !== undefined && (entry.status === null || entry.status >= 400))
+  ).length;
+
+  const handleExport = () => {
+    const blob = new Blob([exportLog()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `pipeline-log-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card className="mt-6">
+      <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+        <CardContent className="p-4">
+          <div className="flex items-center justify-between">
+            <CollapsibleTrigger asChild>
+              <button className="flex items-center gap-2 text-sm font-semibold">
+                {isOpen ? (
+                  <ChevronDown className="h-4 w-4" />
+                ) : (
+                  <ChevronRight className="h-4 w-4" />
+                )}
+                Pipeline log
+                <span className="font-normal text-gray-500">
+                  ({entries.length} entries
+                  {failedCount > 0 && (
+                    <span className="text-red-600">, {failedCount} failed</span>
+                  )}
+                  )
+                </span>
+              </button>
+            </CollapsibleTrigger>
+
+            <div className="flex items-center gap-4">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="debug-logging"
+                  checked={debugEnabled}
+                  onCheckedChange={setDebugEnabled}
+                />
+                <Label htmlFor="debug-logging" className="text-xs text-gray-600">
+                  Console debug output
+                </Label>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handleExport}
+                disabled={!entries.length}
+              >
+                <FileJson className="h-4 w-4 mr-2" />
+                Export JSON
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={clearLog}
+                disabled={!entries.length}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Clear
+              </Button>
+            </div>
+          </div>
+
+          <CollapsibleContent>
+            {entries.length === 0 ? (
+              <p className="text-sm text-gray-400 mt-4">
+                No requests yet. Upload a document to see each step here.
+              </p>
+            ) : (
+              <div className="mt-4 border rounded-lg overflow-auto max-h-[400px]">
+                <table className="w-full text-xs">
+                  <thead className="bg-gray-100 sticky top-0 text-left">
+                    <tr>
+                      <th className="px-2 py-1">Time</th>
+                      <th className="px-2 py-1">Request</th>
+                      <th className="px-2 py-1">Params</th>
+                      <th className="px-2 py-1">Status</th>
+                      <th className="px-2 py-1">Sent</th>
+                      <th className="px-2 py-1">Received</th>
+                      <th className="px-2 py-1">Duration</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {entries.map(entry => (
+                      <LogRow key={entry.id} entry={entry} />
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CollapsibleContent>
+        </CardContent>
+      </Collapsible>
+    </Card>
+  );
+}
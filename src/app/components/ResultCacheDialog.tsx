@@ -0,0 +1,149 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2, Trash2 } from 'lucide-react';
+import { Button } from './ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import {
+  CachedResultSummary,
+  clearResultCache,
+  evictCachedResult,
+  listCachedResults,
+} from '../storage/resultCache';
+import { MOCK_BACKEND_ID } from '../api/settings';
+
+interface ResultCacheDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatSize = (bytes: number) => {
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+};
+
+export function ResultCacheDialog({ open, onOpenChange }: ResultCacheDialogProps) {
+  const [entries, setEntries] = useState<CachedResultSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setEntries(await listCachedResults());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the cache');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) refresh();
+  }, [open, refresh]);
+
+  const handleEvict = async (backend: string, hash: string) => {
+    await evictCachedResult(backend, hash);
+    refresh();
+  };
+
+  const handleClear = async () => {
+    await clearResultCache();
+    refresh();
+  };
+
+  const totalSize = entries.reduce((sum, entry) => sum + entry.sizeBytes, 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Cached Results</DialogTitle>
+          <DialogDescription>
+            Extraction results saved in this browser, matched by file content
+            and reused only with the backend that produced them.
+            {entries.length > 0 &&
+              ` ${entries.length} document${entries.length === 1 ? '' : 's'}, ${formatSize(totalSize)} in total.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && entries.length === 0 ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded p-3">
+            {error}
+          </p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-gray-400 py-4">No cached results.</p>
+        ) : (
+          <div className="border rounded-lg overflow-auto max-h-[400px]">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-100 sticky top-0 text-left">
+                <tr>
+                  <th className="px-3 py-2">Document</th>
+                  <th className="px-3 py-2">Tables</th>
+                  <th className="px-3 py-2">Size</th>
+                  <th className="px-3 py-2">Cached</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map(entry => (
+                  <tr key={`${entry.backend}|${entry.hash}`} className="border-t">
+                    <td className="px-3 py-2">
+                      <p className="font-medium break-all">{entry.fileName}</p>
+                      <p className="text-xs text-gray-500 font-mono">
+                        {entry.hash.slice(0, 12)}
+                      </p>
+                      <p className="text-xs text-gray-500 break-all">
+                        {entry.backend === MOCK_BACKEND_ID ? 'Mock backend' : entry.backend}
+                      </p>
+                    </td>
+                    <td className="px-3 py-2 text-gray-600">{entry.tableCount}</td>
+                    <td className="px-3 py-2 text-gray-600 whitespace-nowrap">
+                      {formatSize(entry.sizeBytes)}
+                    </td>
+                    <td className="px-3 py-2 text-gray-600 whitespace-nowrap">
+                      {new Date(entry.cachedAt).toLocaleString()}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleEvict(entry.backend, entry.hash)}
+                        title="Remove from cache"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={handleClear}
+            disabled={entries.length === 0}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Clear All
+          </Button>
+          <Button onClick={() => onOpenChange(false)}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,33 +1,80 @@
-import { useState, useEffect } from 'react';
-import { FileText, Table, Download } from 'lucide-react';
+import { useState, useEffect, useSyncExternalStore } from 'react';
+import { FileText, Table, Download, AlertTriangle, RefreshCw, Loader2, FileArchive, PanelRight } from 'lucide-react';
 import { Button } from './ui/button';
-import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Card, CardAction, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
-import { ProcessedFile } from '../types';
+import { CsvFile, ProcessedFile } from '../types';
 import { MarkdownViewer } from './MarkdownViewer';
 import { CsvViewer } from './CsvViewer';
+import { TidyTableView } from './TidyTableView';
+import { ORIGINAL_VERSION_ID, versionLabel } from './VersionTimeline';
+import { toCsv } from '../api/csv';
+import { getUnsavedChanges, subscribeDrafts } from '../hooks/useEditSession';
 
 interface ResultsPanelProps {
   file: ProcessedFile | null;
-  onSaveMarkdown: (content: string) => void;
+  onSaveMarkdown: (content: string, note?: string) => void;
+  onRestoreMarkdown?: (versionId: string) => void;
   onSaveCsv: (
     csvId: string,
     headers: string[],
-    data: string[][]
+    data: string[][],
+    note?: string
   ) => void;
-  onTransformCsv?: (csvId: string, data: string[][]) => Promise<void>;
+  onRestoreCsv?: (csvId: string, versionId: string) => void;
+  onTransformCsv?: (csvId: string, headers: string[], data: string[][]) => Promise<void>;
+  onAcceptTransform?: (csvId: string) => void;
+  onDiscardTransform?: (csvId: string) => void;
+  onRetryTable?: (csvId: string) => Promise<void>;
+  onDownloadAll?: () => Promise<void>;
+  // Reports what is being viewed, for the source viewer to find its page
+  onFocusChange?: (text: string | null) => void;
+  isSourceOpen?: boolean;
+  onToggleSource?: () => void;
 }
 
+const withSuffix = (filename: string, suffix: string) =>
+  `${filename.replace(/\.csv$/i, '')}_${suffix}.csv`;
+
+// Enough of a table to recognize the page it is on
+const tableFocusText = (csv: CsvFile) =>
+  [csv.editedHeaders || csv.headers, ...(csv.editedData || csv.data).slice(0, 5)]
+    .flat()
+    .join(' ');
+
+const downloadCsv = (filename: string, headers: string[], data: string[][]) => {
+  const blob = new Blob([toCsv(headers, data)], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
 export function ResultsPanel({
   file,
   onSaveMarkdown,
+  onRestoreMarkdown,
   onSaveCsv,
+  onRestoreCsv,
   onTransformCsv,
+  onAcceptTransform,
+  onDiscardTransform,
+  onRetryTable,
+  onDownloadAll,
+  onFocusChange,
+  isSourceOpen,
+  onToggleSource,
 }: ResultsPanelProps) {
   const [activeView, setActiveView] =
     useState<'markdown' | 'csv'>('markdown');
   const [selectedCsvId, setSelectedCsvId] = useState('');
   const [csvVersion, setCsvVersion] = useState(0);
+  const [retryingCsvId, setRetryingCsvId] = useState<string | null>(null);
+  const [isBundling, setIsBundling] = useState(false);
+  const [markdownSection, setMarkdownSection] = useState<string | null>(null);
+  const unsavedChanges = useSyncExternalStore(subscribeDrafts, getUnsavedChanges);
 
   // ✅ SAFE csvFiles access
   const csvFiles = file?.csvFiles ?? [];
@@ -41,32 +88,88 @@ export function ResultsPanel({
   const handleSaveCsv = (
     csvId: string,
     headers: string[],
-    data: string[][]
+    data: string[][],
+    note?: string
   ) => {
-    onSaveCsv(csvId, headers, data);
+    onSaveCsv(csvId, headers, data, note);
     setCsvVersion(v => v + 1);
   };
 
+  const handleRetryTable = async (csvId: string) => {
+    if (!onRetryTable) return;
+    setRetryingCsvId(csvId);
+    try {
+      await onRetryTable(csvId);
+    } finally {
+      setRetryingCsvId(null);
+    }
+  };
+
+  const handleDownloadAll = async () => {
+    if (!onDownloadAll) return;
+    setIsBundling(true);
+    try {
+      await onDownloadAll();
+    } finally {
+      setIsBundling(false);
+    }
+  };
+
   const handleDownloadCsv = (csvId: string) => {
     const csv = csvFiles.find(c => c.id === csvId);
     if (!csv) return;
 
-    const headers = csv.editedHeaders || csv.headers;
-    const data = csv.editedData || csv.data;
+    downloadCsv(
+      csv.filename,
+      csv.editedHeaders || csv.headers,
+      csv.editedData || csv.data
+    );
+  };
+
+  const handleDownloadCsvVersion = (csvId: string, versionId: string) => {
+    const csv = csvFiles.find(c => c.id === csvId);
+    if (!csv) return;
 
-    const content = [headers, ...data]
-      .map(r => r.join(','))
-      .join('\n');
+    const versions = csv.versions ?? [];
+    const version =
+      versionId === ORIGINAL_VERSION_ID
+        ? { headers: csv.headers, data: csv.data }
+        : versions.find(v => v.id === versionId);
+    if (!version) return;
 
-    const blob = new Blob([content], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = csv.filename;
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadCsv(
+      withSuffix(csv.filename, versionLabel(versions, versionId)),
+      version.headers,
+      version.data
+    );
+  };
+
+  const handleAcceptTransform = (csvId: string) => {
+    onAcceptTransform?.(csvId);
+    setCsvVersion(v => v + 1);
   };
 
+  const selectedCsv = csvFiles.find(c => c.id === selectedCsvId);
+  const selectedTransform = selectedCsv
+    ? file?.tableTransforms?.[selectedCsv.id]
+    : undefined;
+
+  const focusText =
+    activeView === 'csv'
+      ? selectedCsv && !selectedCsv.downloadError
+        ? tableFocusText(selectedCsv)
+        : null
+      : markdownSection;
+
+  useEffect(() => {
+    onFocusChange?.(focusText);
+  }, [focusText, onFocusChange]);
+
+  const unsavedParts = (file && unsavedChanges[file.id]) || [];
+  const unsavedMarker = (
+    <span className="ml-1 h-2 w-2 rounded-full bg-amber-500" title="Unsaved changes" />
+  );
+
   if (!file || file.status !== 'completed') {
     return (
       <Card className="w-full">
@@ -83,6 +186,37 @@ export function ResultsPanel({
       <CardHeader>
         <CardTitle>Extraction Results</CardTitle>
         <p className="text-sm text-gray-500">{file.name}</p>
+        {(onDownloadAll || onToggleSource) && (
+          <CardAction className="flex gap-2">
+            {onToggleSource && (
+              <Button
+                size="sm"
+                variant={isSourceOpen ? 'secondary' : 'outline'}
+                onClick={onToggleSource}
+                title={isSourceOpen ? 'Hide the uploaded document' : 'Show the uploaded document'}
+              >
+                <PanelRight className="h-4 w-4 mr-2" />
+                Source
+              </Button>
+            )}
+            {onDownloadAll && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handleDownloadAll}
+                disabled={isBundling}
+                title="Markdown, all tables, their history and a manifest as one ZIP"
+              >
+                {isBundling ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <FileArchive className="h-4 w-4 mr-2" />
+                )}
+                Download All
+              </Button>
+            )}
+          </CardAction>
+        )}
       </CardHeader>
 
       <CardContent>
@@ -96,6 +230,7 @@ export function ResultsPanel({
             <TabsTrigger value="markdown">
               <FileText className="h-4 w-4 mr-2" />
               Markdown
+              {unsavedParts.includes('markdown') && unsavedMarker}
             </TabsTrigger>
             <TabsTrigger
               value="csv"
@@ -103,6 +238,7 @@ export function ResultsPanel({
             >
               <Table className="h-4 w-4 mr-2" />
               CSV Tables ({csvFiles.length})
+              {unsavedParts.some(part => part.startsWith('csv:')) && unsavedMarker}
             </TabsTrigger>
           </TabsList>
 
@@ -110,7 +246,10 @@ export function ResultsPanel({
             {file.markdown && (
               <MarkdownViewer
                 markdown={file.markdown}
+                draftKey={{ fileId: file.id, part: 'markdown' }}
                 onSave={onSaveMarkdown}
+                onRestore={onRestoreMarkdown}
+                onSectionChange={setMarkdownSection}
               />
             )}
           </TabsContent>
@@ -127,19 +266,65 @@ export function ResultsPanel({
                         ? 'default'
                         : 'outline'
                     }
+                    className={
+                      csv.downloadError && csv.id !== selectedCsvId
+                        ? 'border-red-300 text-red-700'
+                        : undefined
+                    }
                     onClick={() => setSelectedCsvId(csv.id)}
                   >
+                    {csv.downloadError && (
+                      <AlertTriangle className="h-4 w-4 mr-1" />
+                    )}
                     {csv.filename}
+                    {unsavedParts.includes(`csv:${csv.id}`) && unsavedMarker}
                   </Button>
                 ))}
               </div>
 
-              {selectedCsvId && (
+              {selectedCsv?.downloadError && (
+                <div className="p-8 text-center border border-dashed border-red-300 bg-red-50 rounded-lg">
+                  <AlertTriangle className="h-10 w-10 mx-auto mb-3 text-red-500" />
+                  <p className="font-medium text-red-900">
+                    {selectedCsv.filename} could not be downloaded
+                  </p>
+                  <p className="text-sm text-red-700 mt-1">
+                    {selectedCsv.downloadError}
+                  </p>
+                  {onRetryTable && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="mt-4"
+                      onClick={() => handleRetryTable(selectedCsv.id)}
+                      disabled={retryingCsvId === selectedCsv.id}
+                    >
+                      {retryingCsvId === selectedCsv.id ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <RefreshCw className="h-4 w-4 mr-2" />
+                      )}
+                      Retry Download
+                    </Button>
+                  )}
+                </div>
+              )}
+
+              {selectedCsv && !selectedCsv.downloadError && (
                 <CsvViewer
                   key={`${selectedCsvId}-v${csvVersion}`}
-                  csv={csvFiles.find(c => c.id === selectedCsvId)!}
-                  onSave={(headers, data) =>
-                    handleSaveCsv(selectedCsvId, headers, data)
+                  csv={selectedCsv}
+                  draftKey={{ fileId: file.id, part: `csv:${selectedCsv.id}` }}
+                  transform={selectedTransform}
+                  onSave={(headers, data, note) =>
+                    handleSaveCsv(selectedCsvId, headers, data, note)
+                  }
+                  onRestore={
+                    onRestoreCsv &&
+                    (versionId => onRestoreCsv(selectedCsvId, versionId))
+                  }
+                  onDownloadVersion={versionId =>
+                    handleDownloadCsvVersion(selectedCsvId, versionId)
                   }
                   onTransform={onTransformCsv}
                   onDownload={() =>
@@ -147,6 +332,23 @@ export function ResultsPanel({
                   }
                 />
               )}
+
+              {selectedCsv && selectedTransform?.transformedData && (
+                <TidyTableView
+                  sourceFilename={selectedCsv.filename}
+                  headers={selectedTransform.transformedHeaders ?? []}
+                  data={selectedTransform.transformedData}
+                  onAccept={() => handleAcceptTransform(selectedCsv.id)}
+                  onDiscard={() => onDiscardTransform?.(selectedCsv.id)}
+                  onDownload={() =>
+                    downloadCsv(
+                      withSuffix(selectedCsv.filename, 'tidy'),
+                      selectedTransform.transformedHeaders ?? [],
+                      selectedTransform.transformedData ?? []
+                    )
+                  }
+                />
+              )}
             </div>
           </TabsContent>
         </Tabs>
@@ -0,0 +1,300 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  ChevronLeft,
+  ChevronRight,
+  FileQuestion,
+  Loader2,
+  LocateFixed,
+  Maximize2,
+  X,
+  ZoomIn,
+  ZoomOut,
+} from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent } from './ui/card';
+import { ProcessedFile } from '../types';
+import { getSourceFile } from '../storage/sourceFiles';
+import {
+  getPageSize,
+  getPageTexts,
+  loadPdf,
+  PDFDocumentProxy,
+  renderPage,
+} from '../pdf/pdfjs';
+import { findMatchingPage } from '../pdf/pageMatch';
+import { debug } from '../api/pipelineLog';
+
+interface SourceViewerProps {
+  file: ProcessedFile;
+  // Text of the markdown section or table being viewed, to find its page
+  focusText?: string | null;
+  onClose: () => void;
+}
+
+const ZOOM_STEPS = [0.5, 0.75, 1, 1.25, 1.5, 2, 3];
+const FIT_PADDING_PX = 32;
+
+type SourceState =
+  | { status: 'loading' }
+  | { status: 'missing' }
+  | { status: 'error'; message: string }
+  | { status: 'image'; url: string }
+  | { status: 'pdf'; pdf: PDFDocumentProxy };
+
+export function SourceViewer({ file, focusText, onClose }: SourceViewerProps) {
+  const [source, setSource] = useState<SourceState>({ status: 'loading' });
+  const [page, setPage] = useState(1);
+  // null fits the page to the pane width
+  const [zoom, setZoom] = useState<number | null>(null);
+  const [fitScale, setFitScale] = useState(1);
+  const [follow, setFollow] = useState(true);
+  const [pageTexts, setPageTexts] = useState<string[] | null>(null);
+  const [followMiss, setFollowMiss] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const scale = zoom ?? fitScale;
+  const pdf = source.status === 'pdf' ? source.pdf : null;
+  const pageCount = pdf?.numPages ?? 1;
+
+  // Load the uploaded file for this document
+  useEffect(() => {
+    let cancelled = false;
+    let cleanup = () => {};
+    setSource({ status: 'loading' });
+    setPage(1);
+    setPageTexts(null);
+
+    getSourceFile(file.id)
+      .then(async blob => {
+        if (cancelled) return;
+        if (!blob) {
+          setSource({ status: 'missing' });
+        } else if (file.type === 'image') {
+          const url = URL.createObjectURL(blob);
+          cleanup = () => URL.revokeObjectURL(url);
+          setSource({ status: 'image', url });
+        } else {
+          const loaded = await loadPdf(blob);
+          if (cancelled) {
+            loaded.destroy();
+            return;
+          }
+          cleanup = () => loaded.destroy();
+          setSource({ status: 'pdf', pdf: loaded });
+        }
+      })
+      .catch(error => {
+        debug('[Source] Could not open file:', error);
+        if (!cancelled) {
+          setSource({
+            status: 'error',
+            message: error instanceof Error ? error.message : String(error),
+          });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      cleanup();
+    };
+  }, [file.id, file.type]);
+
+  // Keep "fit width" in step with the pane as it is resized
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!pdf || !container) return;
+    let cancelled = false;
+    let pageWidth = 0;
+    const update = () => {
+      if (pageWidth > 0 && !cancelled) {
+        setFitScale(Math.max(0.1, (container.clientWidth - FIT_PADDING_PX) / pageWidth));
+      }
+    };
+    getPageSize(pdf, page)
+      .then(size => {
+        pageWidth = size.width;
+        update();
+      })
+      .catch(error => {
+        // The document is destroyed when another one is opened
+        if (!cancelled) debug('[Source] Could not read page size:', error);
+      });
+    const observer = new ResizeObserver(update);
+    observer.observe(container);
+    return () => {
+      cancelled = true;
+      observer.disconnect();
+    };
+  }, [pdf, page]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!pdf || !canvas) return;
+    let cancelled = false;
+    let cancelRender = () => {};
+
+    renderPage(pdf, page, canvas, scale)
+      .then(task => {
+        if (cancelled) {
+          task.cancel();
+          return;
+        }
+        cancelRender = () => task.cancel();
+        return task.promise;
+      })
+      .catch(error => {
+        // Superseded renders are cancelled on purpose
+        if (error?.name !== 'RenderingCancelledException') {
+          debug('[Source] Could not render page:', error);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      cancelRender();
+    };
+  }, [pdf, page, scale]);
+
+  // Page text is only needed to follow the results
+  useEffect(() => {
+    if (!pdf || !follow || pageTexts) return;
+    let cancelled = false;
+    getPageTexts(pdf)
+      .then(texts => !cancelled && setPageTexts(texts))
+      .catch(error => debug('[Source] Could not read page text:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf, follow, pageTexts]);
+
+  useEffect(() => {
+    if (!follow || !pageTexts || !focusText) return;
+    const match = findMatchingPage(pageTexts, focusText);
+    setFollowMiss(match === null);
+    if (match !== null) setPage(match);
+  }, [follow, pageTexts, focusText]);
+
+  const zoomBy = (direction: 1 | -1) => {
+    const next =
+      direction > 0
+        ? ZOOM_STEPS.find(step => step > scale + 0.01)
+        : [...ZOOM_STEPS].reverse().find(step => step < scale - 0.01);
+    setZoom(next ?? scale);
+  };
+
+  return (
+    <Card className="w-full h-full">
+      <CardContent className="p-0 h-full flex flex-col">
+        <div className="flex items-center justify-between gap-2 border-b px-3 py-2">
+          <p className="text-sm font-medium truncate" title={file.name}>
+            Source: {file.name}
+          </p>
+          <Button size="sm" variant="ghost" onClick={onClose} title="Hide source">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {(source.status === 'pdf' || source.status === 'image') && (
+          <div className="flex flex-wrap items-center gap-1 border-b px-3 py-2 text-sm">
+            {source.status === 'pdf' && (
+              <>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setPage(p => Math.max(1, p - 1))}
+                  disabled={page <= 1}
+                  title="Previous page"
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span className="tabular-nums text-gray-600">
+                  Page {page} of {pageCount}
+                </span>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setPage(p => Math.min(pageCount, p + 1))}
+                  disabled={page >= pageCount}
+                  title="Next page"
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+            <div className="ml-auto flex items-center gap-1">
+              <Button size="sm" variant="ghost" onClick={() => zoomBy(-1)} title="Zoom out">
+                <ZoomOut className="h-4 w-4" />
+              </Button>
+              <span className="w-12 text-center tabular-nums text-gray-600">
+                {Math.round(scale * 100)}%
+              </span>
+              <Button size="sm" variant="ghost" onClick={() => zoomBy(1)} title="Zoom in">
+                <ZoomIn className="h-4 w-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant={zoom === null ? 'secondary' : 'ghost'}
+                onClick={() => setZoom(null)}
+                title="Fit width"
+              >
+                <Maximize2 className="h-4 w-4" />
+              </Button>
+              {source.status === 'pdf' && (
+                <Button
+                  size="sm"
+                  variant={follow ? 'secondary' : 'ghost'}
+                  onClick={() => setFollow(f => !f)}
+                  title={
+                    follow
+                      ? 'Following the section or table being viewed'
+                      : 'Follow the section or table being viewed'
+                  }
+                >
+                  <LocateFixed className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {source.status === 'pdf' && follow && followMiss && (
+          <p className="border-b bg-amber-50 px-3 py-1 text-xs text-amber-800">
+            No page matches what you are viewing
+            {pageTexts?.every(text => !text.trim()) && ' (the PDF has no text layer)'}
+          </p>
+        )}
+
+        <div ref={containerRef} className="flex-1 overflow-auto bg-gray-100 p-4 min-h-[400px]">
+          {source.status === 'loading' && (
+            <div className="flex justify-center py-12 text-gray-400">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          )}
+          {source.status === 'missing' && (
+            <div className="py-12 text-center text-sm text-gray-500">
+              <FileQuestion className="h-10 w-10 mx-auto mb-3 text-gray-400" />
+              The original file is not available for this document.
+            </div>
+          )}
+          {source.status === 'error' && (
+            <p className="py-12 text-center text-sm text-red-700">
+              Could not open the file: {source.message}
+            </p>
+          )}
+          {source.status === 'pdf' && (
+            <canvas ref={canvasRef} className="mx-auto bg-white shadow" />
+          )}
+          {source.status === 'image' && (
+            <img
+              src={source.url}
+              alt={file.name}
+              className="mx-auto bg-white shadow max-w-none"
+              style={{ width: `${scale * 100}%` }}
+            />
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,80 @@
+import { Check, Download, Wand2, X } from 'lucide-react';
+import { Button } from './ui/button';
+
+interface TidyTableViewProps {
+  sourceFilename: string;
+  headers: string[];
+  data: string[][];
+  onAccept: () => void;
+  onDiscard: () => void;
+  onDownload: () => void;
+}
+
+/**
+ * Read-only view of a table's Transform2Tidy output, shown beneath the
+ * original so the two can be compared before the tidy one is accepted.
+ */
+export function TidyTableView({
+  sourceFilename,
+  headers,
+  data,
+  onAccept,
+  onDiscard,
+  onDownload,
+}: TidyTableViewProps) {
+  return (
+    <div className="space-y-4 border-t pt-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <p className="flex items-center gap-2 text-sm font-semibold">
+            <Wand2 className="h-4 w-4 text-purple-600" />
+            Tidy version of {sourceFilename}
+          </p>
+          <p className="text-sm text-gray-600">
+            {data.length} rows × {headers.length} columns
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={onDownload}>
+            <Download className="h-4 w-4 mr-2" />
+            Download Tidy CSV
+          </Button>
+          <Button size="sm" variant="outline" onClick={onDiscard}>
+            <X className="h-4 w-4 mr-2" />
+            Discard
+          </Button>
+          <Button size="sm" onClick={onAccept}>
+            <Check className="h-4 w-4 mr-2" />
+            Use as Table
+          </Button>
+        </div>
+      </div>
+
+      <div className="border border-purple-200 rounded-lg overflow-auto max-h-[400px]">
+        <table className="w-full border-collapse">
+          <thead className="bg-purple-50 sticky top-0">
+            <tr>
+              {headers.map((h, i) => (
+                <th key={i} className="border px-4 py-2 text-left">
+                  {h}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {data.map((row, rIdx) => (
+              <tr key={rIdx}>
+                {row.map((cell, cIdx) => (
+                  <td key={cIdx} className="border px-4 py-2">
+                    {cell}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import {
+  CheckCircle2,
+  Clock,
+  ExternalLink,
+  Loader2,
+  RefreshCw,
+  X,
+  XCircle,
+} from 'lucide-react';
+import { Button } from './ui/button';
+import { Progress } from './ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import {
+  MAX_UPLOAD_CONCURRENCY,
+  QueueItemStatus,
+  UploadQueueItem,
+} from '../hooks/useUploadQueue';
+
+interface UploadQueueProps {
+  items: UploadQueueItem[];
+  concurrency: number;
+  onConcurrencyChange: (value: number) => void;
+  onOpen: (id: string) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClearFinished: () => void;
+}
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / 1024 / 1024).toFixed(1)} MB`
+    : `${(bytes / 1024).toFixed(0)} KB`;
+
+const STATUS_TEXT: Record<QueueItemStatus, string> = {
+  queued: 'Queued',
+  uploading: 'Uploading',
+  extracting: 'Extracting',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+function StatusIcon({ status }: { status: QueueItemStatus }) {
+  switch (status) {
+    case 'queued':
+      return <Clock className="h-4 w-4 text-gray-400" />;
+    case 'uploading':
+    case 'extracting':
+      return <Loader2 className="h-4 w-4 text-blue-600 animate-spin" />;
+    case 'done':
+      return <CheckCircle2 className="h-4 w-4 text-green-600" />;
+    case 'failed':
+      return <XCircle className="h-4 w-4 text-red-600" />;
+  }
+}
+
+export function UploadQueue({
+  items,
+  concurrency,
+  onConcurrencyChange,
+  onOpen,
+  onRetry,
+  onRemove,
+  onClearFinished,
+}: UploadQueueProps) {
+  const count = (status: QueueItemStatus) =>
+    items.filter(item => item.status === status).length;
+  const doneCount = count('done');
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium">
+          Queue{' '}
+          <span className="font-normal text-gray-500">
+            {doneCount}/{items.length} done
+            {count('failed') > 0 && (
+              <span className="text-red-600">, {count('failed')} failed</span>
+            )}
+          </span>
+        </p>
+        <div className="flex items-center gap-2">
+          <Select
+            value={String(concurrency)}
+            onValueChange={value => onConcurrencyChange(Number(value))}
+          >
+            <SelectTrigger className="h-8 w-[120px] text-xs" title="Files processed at the same time">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from({ length: MAX_UPLOAD_CONCURRENCY }, (_, i) => i + 1).map(n => (
+                <SelectItem key={n} value={String(n)}>
+                  {n} at a time
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={onClearFinished}
+            disabled={doneCount === 0}
+          >
+            Clear done
+          </Button>
+        </div>
+      </div>
+
+      <ul className="border rounded-lg divide-y max-h-[320px] overflow-auto">
+        {items.map(item => (
+          <li key={item.id} className="p-3 text-sm">
+            <div className="flex items-center gap-2">
+              <StatusIcon status={item.status} />
+              <span className="flex-1 min-w-0">
+                <span className="block truncate font-medium" title={item.file.name}>
+                  {item.file.name}
+                </span>
+                <span className="block text-xs text-gray-500">
+                  {formatBytes(item.file.size)} · {STATUS_TEXT[item.status]}
+                  {item.status === 'uploading' && item.progress &&
+                    ` ${formatBytes(item.progress.loaded)} of ${formatBytes(item.progress.total)} (${item.progress.percent}%)`}
+                  {item.status === 'done' && item.fromCache && ' (cached result)'}
+                </span>
+              </span>
+
+              {item.status === 'done' && (
+                <Button size="sm" variant="ghost" onClick={() => onOpen(item.id)} title="Open results">
+                  <ExternalLink className="h-4 w-4" />
+                </Button>
+              )}
+              {item.status === 'failed' && (
+                <Button size="sm" variant="ghost" onClick={() => onRetry(item.id)} title="Retry">
+                  <RefreshCw className="h-4 w-4" />
+                </Button>
+              )}
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => onRemove(item.id)}
+                title={item.status === 'uploading' || item.status === 'extracting' ? 'Cancel' : 'Remove from queue'}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+
+            {item.status === 'uploading' && item.progress && (
+              <Progress value={item.progress.percent} className="mt-2 h-1.5" />
+            )}
+            {item.status === 'failed' && item.error && (
+              <p className="mt-1 text-xs text-red-700">
+                {item.error.title}: {item.error.message}
+              </p>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { Download, Eye, RotateCcw } from 'lucide-react';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Version } from '../types';
+
+// Stands for the extraction as it came from the backend
+export const ORIGINAL_VERSION_ID = 'original';
+
+export const versionLabel = (versions: Version[], versionId: string) => {
+  if (versionId === ORIGINAL_VERSION_ID) return 'Original';
+  const index = versions.findIndex(version => version.id === versionId);
+  return index === -1 ? 'Unknown version' : `v${index + 1}`;
+};
+
+export const createVersionId = () =>
+  `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+interface VersionTimelineProps {
+  versions: Version[]; // Oldest first
+  previewId: string | null;
+  onPreview: (versionId: string) => void;
+  onRestore: (versionId: string) => void;
+  onDownload: (versionId: string) => void;
+}
+
+export function VersionTimeline({
+  versions,
+  previewId,
+  onPreview,
+  onRestore,
+  onDownload,
+}: VersionTimelineProps) {
+  const currentId = versions.length
+    ? versions[versions.length - 1].id
+    : ORIGINAL_VERSION_ID;
+
+  const entries = [
+    ...versions
+      .map(version => ({
+        id: version.id,
+        label: versionLabel(versions, version.id),
+        createdAt: version.createdAt,
+        note: version.note,
+      }))
+      .reverse(),
+    {
+      id: ORIGINAL_VERSION_ID,
+      label: 'Original',
+      createdAt: undefined,
+      note: 'As extracted',
+    },
+  ];
+
+  return (
+    <div className="border rounded-lg max-h-[300px] overflow-auto">
+      <ol>
+        {entries.map(entry => (
+          <li
+            key={entry.id}
+            className={`flex items-center gap-3 px-3 py-2 border-b last:border-b-0 text-sm ${
+              entry.id === previewId ? 'bg-blue-50' : ''
+            }`}
+          >
+            <span className="font-medium w-16 shrink-0">{entry.label}</span>
+            <span className="flex-1 min-w-0">
+              {entry.note && (
+                <span className="block truncate text-gray-700">{entry.note}</span>
+              )}
+              {entry.createdAt && (
+                <span className="block text-xs text-gray-500">
+                  {new Date(entry.createdAt).toLocaleString()}
+                </span>
+              )}
+            </span>
+            {entry.id === currentId && <Badge variant="secondary">Current</Badge>}
+            <div className="flex gap-1">
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => onPreview(entry.id)}
+                title="Preview"
+              >
+                <Eye className="h-4 w-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => onDownload(entry.id)}
+                title="Download"
+              >
+                <Download className="h-4 w-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => onRestore(entry.id)}
+                disabled={entry.id === currentId}
+                title="Restore"
+              >
+                <RotateCcw className="h-4 w-4" />
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,324 @@
+import { useEffect, useState } from 'react';
+import {
+  AlertTriangle,
+  Ban,
+  CheckCircle2,
+  FileText,
+  HardDrive,
+  Image,
+  Loader2,
+  MoreHorizontal,
+  Pencil,
+  Trash2,
+  XCircle,
+} from 'lucide-react';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarRail,
+} from './ui/sidebar';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { ProcessedFile } from '../types';
+import { estimateStorage, StorageEstimate } from '../storage/db';
+
+interface WorkspaceSidebarProps {
+  files: ProcessedFile[];
+  activeFileId: string | null;
+  unsavedChanges?: Record<string, string[]>; // Edited parts per document id
+  onSelect: (fileId: string) => void;
+  onRename: (fileId: string, name: string) => void;
+  onRemove: (fileId: string) => void;
+  storageError?: string | null;
+  savedAt?: number; // Changes after every successful save
+  onClearLocalData: () => void;
+}
+
+const formatSize = (bytes: number) => {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024).toFixed(0)} KB`;
+};
+
+const isInProgress = (file: ProcessedFile) =>
+  file.status === 'uploading' || file.status === 'queued' || file.status === 'processing';
+
+const formatUploadTime = (date: Date) => {
+  const time = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return date.toDateString() === new Date().toDateString()
+    ? time
+    : `${date.toLocaleDateString()} ${time}`;
+};
+
+function StatusIcon({ file }: { file: ProcessedFile }) {
+  if (isInProgress(file)) {
+    return <Loader2 className="text-blue-600 animate-spin" />;
+  }
+  switch (file.status) {
+    case 'completed':
+      return <CheckCircle2 className="text-green-600" />;
+    case 'error':
+      return <XCircle className="text-red-600" />;
+    case 'cancelled':
+      return <Ban className="text-gray-400" />;
+    default:
+      return file.type === 'image' ? <Image /> : <FileText />;
+  }
+}
+
+function DocumentSummary({ file }: { file: ProcessedFile }) {
+  const tableCount = file.csvFiles?.length ?? 0;
+  return (
+    <span className="block text-xs text-gray-500 truncate">
+      {formatUploadTime(file.uploadedAt)}
+      {file.status === 'completed'
+        ? ` · ${tableCount} table${tableCount === 1 ? '' : 's'}`
+        : isInProgress(file)
+          ? ` · ${file.status}…`
+          : ` · ${file.status}`}
+    </span>
+  );
+}
+
+export function WorkspaceSidebar({
+  files,
+  activeFileId,
+  unsavedChanges = {},
+  onSelect,
+  onRename,
+  onRemove,
+  storageError,
+  savedAt,
+  onClearLocalData,
+}: WorkspaceSidebarProps) {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [pendingRemove, setPendingRemove] = useState<ProcessedFile | null>(null);
+  const [isConfirmingClear, setIsConfirmingClear] = useState(false);
+  const [storage, setStorage] = useState<StorageEstimate | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    estimateStorage().then(estimate => {
+      if (!cancelled) setStorage(estimate);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [savedAt]);
+
+  // Newest first
+  const sortedFiles = [...files].sort(
+    (a, b) => b.uploadedAt.getTime() - a.uploadedAt.getTime()
+  );
+
+  const startRename = (file: ProcessedFile) => {
+    setRenamingId(file.id);
+    setDraftName(file.name);
+  };
+
+  const finishRename = () => {
+    if (renamingId && draftName.trim()) onRename(renamingId, draftName.trim());
+    setRenamingId(null);
+  };
+
+  return (
+    <Sidebar>
+      <SidebarHeader className="border-b px-4 py-4">
+        <p className="text-sm font-semibold">Workspace</p>
+        <p className="text-xs text-gray-500">
+          {files.length} document{files.length === 1 ? '' : 's'}
+        </p>
+      </SidebarHeader>
+
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>Documents</SidebarGroupLabel>
+          <SidebarGroupContent>
+            {sortedFiles.length === 0 ? (
+              <p className="px-2 py-4 text-xs text-gray-400">
+                Uploaded documents will appear here.
+              </p>
+            ) : (
+              <SidebarMenu>
+                {sortedFiles.map(file => (
+                  <SidebarMenuItem key={file.id}>
+                    {renamingId === file.id ? (
+                      <Input
+                        autoFocus
+                        value={draftName}
+                        onChange={e => setDraftName(e.target.value)}
+                        onBlur={finishRename}
+                        onKeyDown={e => {
+                          if (e.key === 'Enter') finishRename();
+                          if (e.key === 'Escape') setRenamingId(null);
+                        }}
+                        className="h-8"
+                      />
+                    ) : (
+                      <>
+                        <SidebarMenuButton
+                          size="lg"
+                          isActive={file.id === activeFileId}
+                          onClick={() => onSelect(file.id)}
+                          title={file.name}
+                        >
+                          <StatusIcon file={file} />
+                          <span className="min-w-0 flex-1">
+                            <span className="flex items-center gap-1">
+                              <span className="truncate">{file.name}</span>
+                              {unsavedChanges[file.id] && (
+                                <span
+                                  className="h-2 w-2 shrink-0 rounded-full bg-amber-500"
+                                  title="Unsaved changes"
+                                />
+                              )}
+                            </span>
+                            <DocumentSummary file={file} />
+                          </span>
+                        </SidebarMenuButton>
+
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <SidebarMenuAction showOnHover>
+                              <MoreHorizontal />
+                              <span className="sr-only">Document actions</span>
+                            </SidebarMenuAction>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent side="right" align="start">
+                            <DropdownMenuItem onSelect={() => startRename(file)}>
+                              <Pencil className="h-4 w-4 mr-2" />
+                              Rename
+                            </DropdownMenuItem>
+                            <DropdownMenuItem
+                              className="text-red-600"
+                              onSelect={() => setPendingRemove(file)}
+                            >
+                              <Trash2 className="h-4 w-4 mr-2" />
+                              Remove
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </>
+                    )}
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            )}
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+
+      <SidebarFooter className="border-t p-4 space-y-2">
+        {storageError && (
+          <p className="flex gap-2 text-xs text-red-700">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            {storageError}
+          </p>
+        )}
+        <p className="flex items-center gap-2 text-xs text-gray-500">
+          <HardDrive className="h-4 w-4 shrink-0" />
+          {storage && storage.quota > 0
+            ? `Saved in this browser · ${formatSize(storage.usage)} of ${formatSize(storage.quota)}`
+            : 'Saved in this browser'}
+        </p>
+        <Button
+          size="sm"
+          variant="outline"
+          className="w-full"
+          onClick={() => setIsConfirmingClear(true)}
+        >
+          <Trash2 className="h-4 w-4 mr-2" />
+          Clear Local Data
+        </Button>
+      </SidebarFooter>
+
+      <SidebarRail />
+
+      <AlertDialog open={isConfirmingClear} onOpenChange={setIsConfirmingClear}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Clear local data?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every document in the workspace, your edits and all cached
+              results will be deleted from this browser. This cannot be undone.
+              {Object.keys(unsavedChanges).length > 0 && (
+                <span className="block mt-2 font-medium text-amber-700">
+                  Unsaved changes in open editors will be lost too.
+                </span>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                onClearLocalData();
+                setIsConfirmingClear(false);
+              }}
+            >
+              Clear Local Data
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog
+        open={pendingRemove !== null}
+        onOpenChange={open => !open && setPendingRemove(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove {pendingRemove?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingRemove && isInProgress(pendingRemove)
+                ? 'Processing will be cancelled and the document removed from the workspace.'
+                : 'The extracted content and any edits to it will be removed from the workspace.'}
+              {pendingRemove && unsavedChanges[pendingRemove.id] && (
+                <span className="block mt-2 font-medium text-amber-700">
+                  It has unsaved changes, which will be lost.
+                </span>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingRemove) onRemove(pendingRemove.id);
+                setPendingRemove(null);
+              }}
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Sidebar>
+  );
+}
@@ -0,0 +1,148 @@
+import { useCallback, useEffect, useState } from 'react';
+import { UndoableState, UndoHistory, useUndoableState } from './useUndoableState';
+
+/**
+ * Edits that have not been saved yet. They are kept here rather than in the
+ * editors, which unmount whenever the user switches table, tab or document.
+ */
+
+// What is being edited: the markdown or one table of a document
+export interface DraftKey {
+  fileId: string;
+  part: 'markdown' | `csv:${string}`;
+}
+
+interface Draft<T> {
+  start: T; // Value when editing started
+  base?: string; // Identifies the saved content the edits were made on
+  history: UndoHistory<T>;
+  note: string;
+}
+
+const drafts = new Map<string, Map<DraftKey['part'], Draft<unknown>>>();
+// Parts with changes, per document. Replaced rather than mutated so it can
+// be read with useSyncExternalStore.
+let unsavedChanges: Record<string, DraftKey['part'][]> = {};
+const listeners = new Set<() => void>();
+
+const isDirty = (draft: Draft<unknown>) => !Object.is(draft.history.present, draft.start);
+
+const updateUnsavedChanges = () => {
+  const next: Record<string, DraftKey['part'][]> = {};
+  drafts.forEach((parts, fileId) => {
+    const dirty = [...parts].filter(([, draft]) => isDirty(draft)).map(([part]) => part);
+    if (dirty.length) next[fileId] = dirty;
+  });
+  if (JSON.stringify(next) === JSON.stringify(unsavedChanges)) return;
+  unsavedChanges = next;
+  listeners.forEach(listener => listener());
+};
+
+const getDraft = <T>({ fileId, part }: DraftKey) =>
+  drafts.get(fileId)?.get(part) as Draft<T> | undefined;
+
+const setDraft = <T>({ fileId, part }: DraftKey, draft: Draft<T> | null) => {
+  const parts = drafts.get(fileId) ?? new Map();
+  if (draft) parts.set(part, draft);
+  else parts.delete(part);
+
+  if (parts.size) drafts.set(fileId, parts);
+  else drafts.delete(fileId);
+  updateUnsavedChanges();
+};
+
+export const subscribeDrafts = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getUnsavedChanges = () => unsavedChanges;
+
+/**
+ * Drop the drafts of one document, or of all documents.
+ */
+export const discardDrafts = (fileId?: string) => {
+  if (fileId) drafts.delete(fileId);
+  else drafts.clear();
+  updateUnsavedChanges();
+};
+
+export interface EditSession<T> {
+  isEditing: boolean;
+  // A draft was kept, but the saved content changed since it was started
+  isOutdated: boolean;
+  edit: UndoableState<T>;
+  note: string; // Version note typed so far
+  setNote: (note: string) => void;
+  start: (value: T) => void;
+  // Continue an outdated draft; saving it replaces the newer content
+  resume: () => void;
+  // After saving or cancelling, or to discard an outdated draft
+  end: () => void;
+}
+
+/**
+ * Editing state of one editor. With a `key`, an unfinished session is
+ * resumed when the editor mounts again. `base` identifies the saved
+ * content; a draft started on other content is not resumed by itself.
+ */
+export function useEditSession<T>(
+  key: DraftKey | undefined,
+  initial: T,
+  base?: string
+): EditSession<T> {
+  const [restored] = useState(() => (key ? getDraft<T>(key) : undefined));
+  const [isOutdated, setIsOutdated] = useState(
+    restored !== undefined && restored.base !== base
+  );
+  const [isEditing, setIsEditing] = useState(restored !== undefined && !isOutdated);
+  const [startValue, setStartValue] = useState<T>(() => restored?.start ?? initial);
+  const [draftBase, setDraftBase] = useState(restored?.base);
+  const edit = useUndoableState<T>(initial, restored?.history);
+  const [note, setNote] = useState(restored?.note ?? '');
+
+  const fileId = key?.fileId;
+  const part = key?.part;
+  const { history, reset } = edit;
+
+  useEffect(() => {
+    if (fileId === undefined || part === undefined || !isEditing) return;
+    setDraft({ fileId, part }, { start: startValue, base: draftBase, history, note });
+  }, [fileId, part, isEditing, startValue, draftBase, history, note]);
+
+  const start = useCallback(
+    (value: T) => {
+      reset(value);
+      setStartValue(value);
+      setDraftBase(base);
+      setNote('');
+      setIsOutdated(false);
+      setIsEditing(true);
+    },
+    [reset, base]
+  );
+
+  const resume = useCallback(() => {
+    setDraftBase(base);
+    setIsOutdated(false);
+    setIsEditing(true);
+  }, [base]);
+
+  // Cleared here and not in the effect: saving can remount the editor
+  // before its effects run again
+  const end = useCallback(() => {
+    setIsEditing(false);
+    setIsOutdated(false);
+    setNote('');
+    if (fileId !== undefined && part !== undefined) setDraft({ fileId, part }, null);
+  }, [fileId, part]);
+
+  // An outdated draft without changes has nothing worth asking about
+  useEffect(() => {
+    if (isOutdated && restored && !isDirty(restored)) end();
+  }, [isOutdated, restored, end]);
+
+  return { isEditing, isOutdated, edit, note, setNote, start, resume, end };
+}
@@ -0,0 +1,128 @@
+import { useCallback, useRef, useState } from 'react';
+import type { KeyboardEvent } from 'react';
+
+// Changes with the same key closer together than this form one undo step
+const COALESCE_WINDOW_MS = 1000;
+// ...but a step never spans longer than this, so continuous typing is
+// still undone a few seconds at a time
+const MAX_STEP_MS = 5000;
+const MAX_HISTORY = 200;
+
+export interface UndoHistory<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+export interface UndoableState<T> {
+  value: T;
+  history: UndoHistory<T>; // To keep it beyond this component
+  /**
+   * Record a change. Pass a `coalesceKey` (e.g. the cell being typed in)
+   * to merge rapid consecutive changes to the same thing into one step.
+   */
+  set: (update: T | ((prev: T) => T), coalesceKey?: string) => void;
+  undo: () => void;
+  redo: () => void;
+  // Replace the value and forget the history, e.g. when an edit session starts
+  reset: (value: T) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+/**
+ * useState with an undo/redo stack. `T` must not be a function. Pass
+ * `restore` to continue a history kept from an earlier mount.
+ */
+export function useUndoableState<T>(
+  initial: T | (() => T),
+  restore?: UndoHistory<T>
+): UndoableState<T> {
+  const [history, setHistory] = useState<UndoHistory<T>>(
+    () =>
+      restore ?? {
+        past: [],
+        present: typeof initial === 'function' ? (initial as () => T)() : initial,
+        future: [],
+      }
+  );
+  const lastChange = useRef<{ key: string; at: number; stepStartedAt: number } | null>(null);
+
+  const set = useCallback((update: T | ((prev: T) => T), coalesceKey?: string) => {
+    const now = Date.now();
+    const last = lastChange.current;
+    const coalesce =
+      coalesceKey !== undefined &&
+      last?.key === coalesceKey &&
+      now - last.at < COALESCE_WINDOW_MS &&
+      now - last.stepStartedAt < MAX_STEP_MS;
+    lastChange.current =
+      coalesceKey !== undefined
+        ? { key: coalesceKey, at: now, stepStartedAt: coalesce && last ? last.stepStartedAt : now }
+        : null;
+
+    setHistory(prev => {
+      const next =
+        typeof update === 'function' ? (update as (prev: T) => T)(prev.present) : update;
+      if (Object.is(next, prev.present)) return prev;
+      return {
+        past: coalesce ? prev.past : [...prev.past, prev.present].slice(-MAX_HISTORY),
+        present: next,
+        future: [],
+      };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    lastChange.current = null;
+    setHistory(prev =>
+      prev.past.length
+        ? {
+            past: prev.past.slice(0, -1),
+            present: prev.past[prev.past.length - 1],
+            future: [prev.present, ...prev.future],
+          }
+        : prev
+    );
+  }, []);
+
+  const redo = useCallback(() => {
+    lastChange.current = null;
+    setHistory(prev =>
+      prev.future.length
+        ? {
+            past: [...prev.past, prev.present],
+            present: prev.future[0],
+            future: prev.future.slice(1),
+          }
+        : prev
+    );
+  }, []);
+
+  const reset = useCallback((value: T) => {
+    lastChange.current = null;
+    setHistory({ past: [], present: value, future: [] });
+  }, []);
+
+  return {
+    value: history.present,
+    history,
+    set,
+    undo,
+    redo,
+    reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+}
+
+/**
+ * Map Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z and Ctrl+Y to an action.
+ */
+export const undoShortcut = (event: KeyboardEvent): 'undo' | 'redo' | null => {
+  if (!(event.ctrlKey || event.metaKey) || event.altKey) return null;
+  const key = event.key.toLowerCase();
+  if (key === 'z') return event.shiftKey ? 'redo' : 'undo';
+  if (key === 'y' && !event.shiftKey) return 'redo';
+  return null;
+};
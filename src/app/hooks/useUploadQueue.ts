@@ -0,0 +1,166 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { isAbortError, UploadProgress } from '../api/client';
+import { describeError, ErrorDescription } from '../api/errors';
+
+export type QueueItemStatus = 'queued' | 'uploading' | 'extracting' | 'done' | 'failed';
+
+export interface UploadQueueItem {
+  id: string; // Also the id of the ProcessedFile created for it
+  file: File;
+  status: QueueItemStatus;
+  // Dropped on its own: ask before reusing a cached result and open the
+  // document once it is ready. Batch items do neither.
+  interactive: boolean;
+  progress?: UploadProgress;
+  fromCache?: boolean;
+  error?: ErrorDescription;
+}
+
+export interface QueueControls {
+  signal: AbortSignal;
+  setStatus: (status: 'uploading' | 'extracting') => void;
+  setProgress: (progress: UploadProgress) => void;
+}
+
+// 'skipped' removes the item without marking it done or failed
+export type QueueItemOutcome = 'processed' | 'cached' | 'skipped';
+
+export type QueueWorker = (
+  item: UploadQueueItem,
+  controls: QueueControls
+) => Promise<QueueItemOutcome>;
+
+const CONCURRENCY_STORAGE_KEY = 'pdf-extraction.uploadConcurrency';
+export const MAX_UPLOAD_CONCURRENCY = 4;
+const DEFAULT_CONCURRENCY = 2;
+
+const readConcurrency = () => {
+  try {
+    const stored = Number(localStorage.getItem(CONCURRENCY_STORAGE_KEY));
+    return stored >= 1 && stored <= MAX_UPLOAD_CONCURRENCY ? stored : DEFAULT_CONCURRENCY;
+  } catch {
+    return DEFAULT_CONCURRENCY;
+  }
+};
+
+const isActive = (item: UploadQueueItem) =>
+  item.status === 'uploading' || item.status === 'extracting';
+
+const createId = () => `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+/**
+ * Runs `worker` for each enqueued file, at most `concurrency` at a time.
+ * Removing a running item aborts it.
+ */
+export function useUploadQueue(worker: QueueWorker) {
+  const [items, setItems] = useState<UploadQueueItem[]>([]);
+  const [concurrency, setConcurrencyState] = useState(readConcurrency);
+  const controllers = useRef(new Map<string, AbortController>());
+  const workerRef = useRef(worker);
+  workerRef.current = worker;
+
+  const updateItem = useCallback((id: string, update: Partial<UploadQueueItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...update } : item)));
+  }, []);
+
+  const run = useCallback(
+    async (item: UploadQueueItem) => {
+      const controller = new AbortController();
+      controllers.current.set(item.id, controller);
+
+      try {
+        const outcome = await workerRef.current(item, {
+          signal: controller.signal,
+          setStatus: status => updateItem(item.id, { status }),
+          setProgress: progress => updateItem(item.id, { progress }),
+        });
+        if (outcome === 'skipped') {
+          setItems(prev => prev.filter(i => i.id !== item.id));
+        } else {
+          updateItem(item.id, {
+            status: 'done',
+            progress: undefined,
+            fromCache: outcome === 'cached',
+          });
+        }
+      } catch (error) {
+        // Aborted items were removed by whoever aborted them
+        if (isAbortError(error)) return;
+        updateItem(item.id, {
+          status: 'failed',
+          progress: undefined,
+          error: describeError(error),
+        });
+      } finally {
+        controllers.current.delete(item.id);
+      }
+    },
+    [updateItem]
+  );
+
+  // Start queued items while there is capacity
+  useEffect(() => {
+    const capacity = concurrency - items.filter(isActive).length;
+    if (capacity <= 0) return;
+    const next = items.filter(item => item.status === 'queued').slice(0, capacity);
+    if (next.length === 0) return;
+
+    const startIds = new Set(next.map(item => item.id));
+    setItems(prev =>
+      prev.map(item => (startIds.has(item.id) ? { ...item, status: 'uploading' } : item))
+    );
+    next.forEach(item => run({ ...item, status: 'uploading' }));
+  }, [items, concurrency, run]);
+
+  const enqueue = useCallback((files: File[]) => {
+    const interactive = files.length === 1;
+    setItems(prev => [
+      ...prev,
+      ...files.map(file => ({ id: createId(), file, status: 'queued' as const, interactive })),
+    ]);
+  }, []);
+
+  const retry = useCallback((id: string) => {
+    setItems(prev =>
+      prev.map(item =>
+        item.id === id && item.status === 'failed'
+          ? { ...item, status: 'queued', error: undefined }
+          : item
+      )
+    );
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    controllers.current.get(id)?.abort();
+    setItems(prev => prev.filter(item => item.id !== id));
+  }, []);
+
+  const clearFinished = useCallback(() => {
+    setItems(prev => prev.filter(item => item.status !== 'done'));
+  }, []);
+
+  const clear = useCallback(() => {
+    controllers.current.forEach(controller => controller.abort());
+    setItems([]);
+  }, []);
+
+  const setConcurrency = useCallback((value: number) => {
+    setConcurrencyState(value);
+    try {
+      localStorage.setItem(CONCURRENCY_STORAGE_KEY, String(value));
+    } catch {
+      // Not persisted; the setting still applies to this session
+    }
+  }, []);
+
+  return {
+    items,
+    concurrency,
+    setConcurrency,
+    enqueue,
+    retry,
+    remove,
+    clearFinished,
+    clear,
+  };
+}
@@ -0,0 +1,242 @@
+/**
+ * Clean-up of photographed documents before upload: rotation, cropping,
+ * straightening, contrast and grayscale or black-and-white. Everything
+ * runs on a canvas in the browser; the original file is left untouched.
+ */
+
+// Fractions (0–1) of the image after rotation
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageEdits {
+  quarterTurns: 0 | 1 | 2 | 3; // Clockwise
+  angle: number; // Fine rotation in degrees, clockwise, to straighten text
+  crop: CropRect | null;
+  contrast: number; // 1 leaves the image as it is
+  grayscale: boolean;
+  threshold: number | null; // 0–255; when set, pixels become black or white
+}
+
+export const NO_EDITS: ImageEdits = {
+  quarterTurns: 0,
+  angle: 0,
+  crop: null,
+  contrast: 1,
+  grayscale: false,
+  threshold: null,
+};
+
+export const MAX_DESKEW_DEGREES = 15;
+
+export const hasEdits = (edits: ImageEdits) =>
+  edits.quarterTurns !== 0 ||
+  edits.angle !== 0 ||
+  edits.crop !== null ||
+  edits.contrast !== 1 ||
+  edits.grayscale ||
+  edits.threshold !== null;
+
+const luminance = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+/**
+ * Apply contrast, grayscale and threshold to RGBA pixels in place.
+ */
+export const adjustPixels = (
+  data: Uint8ClampedArray,
+  { contrast, grayscale, threshold }: Pick<ImageEdits, 'contrast' | 'grayscale' | 'threshold'>
+) => {
+  for (let i = 0; i < data.length; i += 4) {
+    // Values outside 0–255 are clamped by the array
+    let r = (data[i] - 128) * contrast + 128;
+    let g = (data[i + 1] - 128) * contrast + 128;
+    let b = (data[i + 2] - 128) * contrast + 128;
+    if (grayscale || threshold !== null) {
+      let l = luminance(r, g, b);
+      if (threshold !== null) l = l >= threshold ? 255 : 0;
+      r = g = b = l;
+    }
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+  }
+};
+
+/**
+ * Threshold separating ink from paper in RGBA pixels (Otsu's method).
+ */
+export const otsuThreshold = (data: Uint8ClampedArray): number => {
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < data.length; i += 4) {
+    histogram[Math.round(luminance(data[i], data[i + 1], data[i + 2]))]++;
+  }
+
+  const total = data.length / 4;
+  const sum = histogram.reduce((acc, count, value) => acc + count * value, 0);
+  let best = 128;
+  let bestVariance = -1;
+  let weightBelow = 0;
+  let sumBelow = 0;
+
+  for (let t = 0; t < 256; t++) {
+    weightBelow += histogram[t];
+    if (weightBelow === 0) continue;
+    const weightAbove = total - weightBelow;
+    if (weightAbove === 0) break;
+    sumBelow += t * histogram[t];
+    const meanBelow = sumBelow / weightBelow;
+    const meanAbove = (sum - sumBelow) / weightAbove;
+    const variance = weightBelow * weightAbove * (meanBelow - meanAbove) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = t + 1; // Pixels at t are still ink
+    }
+  }
+  return best;
+};
+
+const MAX_SKEW_POINTS = 50_000;
+
+/**
+ * Clockwise rotation in degrees that makes the lines of text in RGBA
+ * pixels horizontal, within ±MAX_DESKEW_DEGREES. Text rows give the
+ * sharpest horizontal profile of dark pixels when they are level.
+ */
+export const estimateSkew = (data: Uint8ClampedArray, width: number, height: number): number => {
+  const threshold = otsuThreshold(data);
+  const xs: number[] = [];
+  const ys: number[] = [];
+  const pixelCount = width * height;
+  const step = Math.max(1, Math.floor(pixelCount / (MAX_SKEW_POINTS * 4)));
+  for (let p = 0; p < pixelCount && xs.length < MAX_SKEW_POINTS; p += step) {
+    const i = p * 4;
+    if (luminance(data[i], data[i + 1], data[i + 2]) < threshold) {
+      xs.push(p % width);
+      ys.push(Math.floor(p / width));
+    }
+  }
+  if (xs.length === 0) return 0;
+
+  const rows = new Float64Array(width + height + 2);
+  const score = (degrees: number) => {
+    const radians = (degrees * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    rows.fill(0);
+    for (let k = 0; k < xs.length; k++) {
+      rows[Math.round(xs[k] * sin + ys[k] * cos) + width]++;
+    }
+    let total = 0;
+    for (let r = 0; r < rows.length; r++) total += rows[r] * rows[r];
+    return total;
+  };
+
+  const search = (from: number, to: number, by: number, start: number) => {
+    let best = start;
+    let bestScore = score(start);
+    for (let degrees = from; degrees <= to + 1e-9; degrees += by) {
+      const s = score(degrees);
+      if (s > bestScore) {
+        best = degrees;
+        bestScore = s;
+      }
+    }
+    return best;
+  };
+
+  const coarse = search(-MAX_DESKEW_DEGREES, MAX_DESKEW_DEGREES, 0.5, 0);
+  const fine = search(coarse - 0.5, coarse + 0.5, 0.1, coarse);
+  return Math.round(fine * 10) / 10;
+};
+
+/**
+ * Decode an image file, honouring its EXIF orientation.
+ */
+export const loadImage = (blob: Blob) => createImageBitmap(blob);
+
+/**
+ * Draw `image` rotated, then cropped, then with the pixel adjustments.
+ * `maxSize` scales the result down, for previews.
+ */
+export const renderEdits = (
+  image: ImageBitmap,
+  edits: ImageEdits,
+  maxSize = Infinity
+): HTMLCanvasElement => {
+  const radians = ((edits.quarterTurns * 90 + edits.angle) * Math.PI) / 180;
+  const sin = Math.abs(Math.sin(radians));
+  const cos = Math.abs(Math.cos(radians));
+  const rotatedWidth = image.width * cos + image.height * sin;
+  const rotatedHeight = image.width * sin + image.height * cos;
+  const scale = Math.min(1, maxSize / Math.max(rotatedWidth, rotatedHeight));
+
+  const crop = edits.crop ?? { x: 0, y: 0, width: 1, height: 1 };
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(rotatedWidth * crop.width * scale));
+  canvas.height = Math.max(1, Math.round(rotatedHeight * crop.height * scale));
+
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('The browser could not create a canvas');
+  // Corners uncovered by straightening become paper, not black
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.scale(scale, scale);
+  ctx.translate(
+    rotatedWidth / 2 - crop.x * rotatedWidth,
+    rotatedHeight / 2 - crop.y * rotatedHeight
+  );
+  ctx.rotate(radians);
+  ctx.drawImage(image, -image.width / 2, -image.height / 2);
+
+  if (edits.contrast !== 1 || edits.grayscale || edits.threshold !== null) {
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    adjustPixels(pixels.data, edits);
+    ctx.putImageData(pixels, 0, 0);
+  }
+  return canvas;
+};
+
+/**
+ * Size of the image used to detect skew; more detail does not help.
+ */
+const SKEW_SAMPLE_PX = 800;
+
+/**
+ * Straightening angle for `image` after its quarter turns.
+ */
+export const detectSkew = (image: ImageBitmap, quarterTurns: ImageEdits['quarterTurns']) => {
+  const canvas = renderEdits(image, { ...NO_EDITS, quarterTurns }, SKEW_SAMPLE_PX);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return 0;
+  return estimateSkew(
+    ctx.getImageData(0, 0, canvas.width, canvas.height).data,
+    canvas.width,
+    canvas.height
+  );
+};
+
+/**
+ * The file to upload in place of `file`. Black-and-white results are
+ * saved as PNG; photos keep their JPEG or WebP encoding.
+ */
+export const applyImageEdits = async (file: File, edits: ImageEdits): Promise<File> => {
+  const image = await loadImage(file);
+  try {
+    const canvas = renderEdits(image, edits);
+    const type =
+      edits.threshold === null && (file.type === 'image/jpeg' || file.type === 'image/webp')
+        ? file.type
+        : 'image/png';
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, 0.92));
+    if (!blob) throw new Error('The browser could not encode the image');
+
+    const extension = type === 'image/png' ? 'png' : type === 'image/webp' ? 'webp' : 'jpg';
+    const name = `${file.name.replace(/\.[^.]+$/, '')}_edited.${extension}`;
+    return new File([blob], name, { type });
+  } finally {
+    image.close();
+  }
+};
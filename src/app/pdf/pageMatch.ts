@@ -0,0 +1,53 @@
+/**
+ * Find the PDF page a piece of extracted text came from, by looking for
+ * its words in the text layer of each page. The backend does not report
+ * page numbers, so this is a best guess.
+ */
+
+// Only the first words are needed to tell pages apart
+const MAX_TERMS = 60;
+const MIN_TERM_LENGTH = 3;
+// Share of the text (by characters) that must be found on the best page
+const MIN_MATCH_RATIO = 0.3;
+
+// Whitespace is dropped altogether: PDF text layers split and join words
+// unpredictably, and scripts such as Khmer do not separate words at all
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, '');
+
+/**
+ * Words of `text` worth searching for, without markdown syntax.
+ */
+export const searchTerms = (text: string): string[] => {
+  const words = text
+    .toLowerCase()
+    .split(/[\s|*#_`>[\]()]+/)
+    .map(word => word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, ''))
+    .filter(word => word.length >= MIN_TERM_LENGTH && !/^-+$/.test(word));
+  return [...new Set(words)].slice(0, MAX_TERMS);
+};
+
+/**
+ * 1-based number of the page that best matches `text`, or null when no
+ * page matches well enough (e.g. a scan without a text layer).
+ */
+export const findMatchingPage = (pageTexts: string[], text: string): number | null => {
+  const terms = searchTerms(text);
+  if (terms.length === 0) return null;
+
+  const total = terms.reduce((sum, term) => sum + term.length, 0);
+  let bestPage: number | null = null;
+  let bestScore = 0;
+
+  pageTexts.map(normalize).forEach((pageText, index) => {
+    const score = terms.reduce(
+      (sum, term) => (pageText.includes(term) ? sum + term.length : sum),
+      0
+    );
+    if (score > bestScore) {
+      bestPage = index + 1;
+      bestScore = score;
+    }
+  });
+
+  return bestScore >= total * MIN_MATCH_RATIO ? bestPage : null;
+};
@@ -0,0 +1,43 @@
+/**
+ * Page selections as typed by users ("1-3, 7, 10-12"), 1-based.
+ */
+
+/**
+ * Parse a page range list into sorted, distinct page numbers. Throws with
+ * a message fit for the user when the text is not valid for `pageCount`.
+ */
+export const parsePageRanges = (text: string, pageCount: number): number[] => {
+  const pages = new Set<number>();
+
+  for (const part of text.split(',').map(p => p.trim()).filter(Boolean)) {
+    const match = part.match(/^(\d+)\s*(?:[-–]\s*(\d+))?$/);
+    if (!match) throw new Error(`"${part}" is not a page or range`);
+
+    const from = Number(match[1]);
+    const to = match[2] === undefined ? from : Number(match[2]);
+    if (from > to) throw new Error(`${part} is not a valid range`);
+    if (from < 1 || to > pageCount) {
+      throw new Error(`${part} is outside pages 1–${pageCount}`);
+    }
+    for (let page = from; page <= to; page++) pages.add(page);
+  }
+
+  if (pages.size === 0) throw new Error('Select at least one page');
+  return [...pages].sort((a, b) => a - b);
+};
+
+/**
+ * Shortest range list for `pages`, e.g. [1, 2, 3, 7] → "1-3, 7".
+ */
+export const formatPageRanges = (pages: number[]): string => {
+  const sorted = [...new Set(pages)].sort((a, b) => a - b);
+  const ranges: string[] = [];
+  let start = sorted[0];
+
+  sorted.forEach((page, i) => {
+    if (sorted[i + 1] === page + 1) return;
+    ranges.push(start === page ? String(start) : `${start}-${page}`);
+    start = sorted[i + 1];
+  });
+  return ranges.join(', ');
+};
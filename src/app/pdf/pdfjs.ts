@@ -0,0 +1,106 @@
+import { getDocument, GlobalWorkerOptions, PDFDataRangeTransport } from 'pdfjs-dist';
+import type { PDFDocumentLoadingTask, PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+/**
+ * pdf.js setup and the few operations the app needs from it. Parsing runs
+ * in a worker bundled by Vite.
+ */
+
+GlobalWorkerOptions.workerSrc = workerUrl;
+
+export type { PDFDocumentProxy };
+
+export const loadPdf = async (source: Blob): Promise<PDFDocumentProxy> =>
+  getDocument({ data: new Uint8Array(await source.arrayBuffer()) }).promise;
+
+const RANGE_CHUNK_BYTES = 64 * 1024;
+
+// Hands pdf.js the parts of a file it asks for
+class BlobRangeTransport extends PDFDataRangeTransport {
+  private readonly blob: Blob;
+  private readonly onReadError: () => void;
+
+  constructor(blob: Blob, onReadError: () => void) {
+    super(blob.size, null);
+    this.blob = blob;
+    this.onReadError = onReadError;
+  }
+
+  requestDataRange(begin: number, end: number) {
+    this.blob
+      .slice(begin, end)
+      .arrayBuffer()
+      .then(buffer => this.onDataRange(begin, new Uint8Array(buffer)), this.onReadError);
+  }
+}
+
+/**
+ * Like loadPdf, but only the parts of the file that are used are read:
+ * the page count of a large scan takes a fraction of its size.
+ */
+export const loadPdfByRanges = (source: Blob): Promise<PDFDocumentProxy> => {
+  // A file that cannot be read any more would leave the load pending
+  let task: PDFDocumentLoadingTask | undefined;
+  const transport = new BlobRangeTransport(source, () => void task?.destroy());
+  task = getDocument({
+    range: transport,
+    rangeChunkSize: RANGE_CHUNK_BYTES,
+    disableAutoFetch: true,
+    disableStream: true,
+  });
+  return task.promise;
+};
+
+/**
+ * Size of a page (1-based) in CSS pixels at 100% zoom.
+ */
+export const getPageSize = async (pdf: PDFDocumentProxy, pageNumber: number) => {
+  const page = await pdf.getPage(pageNumber);
+  const { width, height } = page.getViewport({ scale: 1 });
+  return { width, height };
+};
+
+/**
+ * Draw a page into `canvas`, sharp on high-DPI screens. Cancel the returned
+ * task before drawing into the same canvas again.
+ */
+export const renderPage = async (
+  pdf: PDFDocumentProxy,
+  pageNumber: number,
+  canvas: HTMLCanvasElement,
+  scale: number
+): Promise<RenderTask> => {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale });
+  const ratio = window.devicePixelRatio || 1;
+
+  canvas.width = Math.floor(viewport.width * ratio);
+  canvas.height = Math.floor(viewport.height * ratio);
+  canvas.style.width = `${Math.floor(viewport.width)}px`;
+  canvas.style.height = `${Math.floor(viewport.height)}px`;
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported in this browser');
+  return page.render({
+    canvasContext: context,
+    viewport,
+    transform: ratio === 1 ? undefined : [ratio, 0, 0, ratio, 0, 0],
+  });
+};
+
+/**
+ * Text layer of every page, in page order. Scanned pages without OCR
+ * text come back empty.
+ */
+export const getPageTexts = async (pdf: PDFDocumentProxy): Promise<string[]> => {
+  const texts: string[] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    texts.push(
+      content.items.map(item => ('str' in item ? item.str : '')).join(' ')
+    );
+  }
+  return texts;
+};
@@ -0,0 +1,22 @@
+import { PDFDocument } from 'pdf-lib';
+import { formatPageRanges } from './pageRanges';
+
+/**
+ * Copy the given pages (1-based) of a PDF into a new, smaller file, so only
+ * they are uploaded and processed. The name records the range kept, e.g.
+ * `report_p40-55.pdf`.
+ */
+export const extractPages = async (file: File, pages: number[]): Promise<File> => {
+  const source = await PDFDocument.load(await file.arrayBuffer());
+  const trimmed = await PDFDocument.create();
+  const copied = await trimmed.copyPages(
+    source,
+    pages.map(page => page - 1)
+  );
+  copied.forEach(page => trimmed.addPage(page));
+
+  const bytes = await trimmed.save();
+  const suffix = formatPageRanges(pages).replace(/\s/g, '').replace(/,/g, '_');
+  const name = `${file.name.replace(/\.pdf$/i, '')}_p${suffix}.pdf`;
+  return new File([new Uint8Array(bytes)], name, { type: 'application/pdf' });
+};
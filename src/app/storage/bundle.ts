@@ -0,0 +1,423 @@
+import JSZip from 'jszip';
+import { parseCsv, toCsv } from '../api/csv';
+import {
+  CsvFile,
+  CsvVersion,
+  MarkdownFile,
+  MarkdownVersion,
+  ProcessedFile,
+  TableTransformState,
+  Version,
+} from '../types';
+
+/**
+ * Packs a processed document into a ZIP: current and original markdown and
+ * tables, every saved version, pending tidy tables and a manifest.json
+ * describing where each of them is. The same ZIP, or loose .md and .csv
+ * files, can be opened again to continue working without the backend.
+ */
+
+export const BUNDLE_FORMAT = 'pdf-extraction-bundle';
+export const BUNDLE_FORMAT_VERSION = 1;
+
+export interface BundleVersion {
+  id: string;
+  label: string; // 'v1', 'v2', … as shown in History
+  createdAt: string;
+  note?: string;
+  path: string;
+}
+
+export interface BundleTable {
+  id: string;
+  filename: string;
+  current?: string; // Paths are missing for tables that failed to download
+  original?: string;
+  tidy?: string;
+  downloadError?: string;
+  versions: BundleVersion[];
+}
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  source: {
+    name: string;
+    type: ProcessedFile['type'];
+    uploadedAt: string;
+  };
+  documentName?: string;
+  markdown?: {
+    filename: string;
+    current: string;
+    original: string;
+    versions: BundleVersion[];
+  };
+  tables: BundleTable[];
+}
+
+export const MANIFEST_PATH = 'manifest.json';
+
+const withExtension = (filename: string, extension: string) =>
+  filename.toLowerCase().endsWith(extension) ? filename : `${filename}${extension}`;
+
+const stripExtension = (filename: string) => filename.replace(/\.[^./]+$/, '');
+
+// Keep archive paths flat and portable
+const safeName = (name: string) => name.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'untitled';
+
+const versionEntries = <T extends Version>(
+  versions: T[],
+  path: (label: string) => string
+) =>
+  versions.map((version, index) => {
+    const label = `v${index + 1}`;
+    return {
+      version,
+      meta: {
+        id: version.id,
+        label,
+        createdAt: version.createdAt,
+        note: version.note,
+        path: path(label),
+      },
+    };
+  });
+
+/**
+ * Suggested name of the ZIP for `file`.
+ */
+export const bundleFilename = (file: ProcessedFile) =>
+  `${safeName(stripExtension(file.documentName || file.name))}.zip`;
+
+/**
+ * Build the ZIP for a completed document.
+ */
+export async function buildResultBundle(file: ProcessedFile): Promise<Blob> {
+  const zip = new JSZip();
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    formatVersion: BUNDLE_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    source: {
+      name: file.name,
+      type: file.type,
+      uploadedAt: file.uploadedAt.toISOString(),
+    },
+    documentName: file.documentName,
+    tables: [],
+  };
+
+  if (file.markdown) {
+    const { markdown } = file;
+    const filename = withExtension(safeName(markdown.filename || 'document'), '.md');
+    const base = stripExtension(filename);
+    const versions = versionEntries(
+      markdown.versions ?? [],
+      label => `history/markdown/${base}_${label}.md`
+    );
+
+    zip.file(filename, markdown.editedContent || markdown.content);
+    zip.file(`original/${filename}`, markdown.content);
+    versions.forEach(({ version, meta }) => zip.file(meta.path, version.content));
+
+    manifest.markdown = {
+      filename: markdown.filename,
+      current: filename,
+      original: `original/${filename}`,
+      versions: versions.map(({ meta }) => meta),
+    };
+  }
+
+  // Extraction can name two tables alike; the archive cannot
+  const usedNames = new Set<string>();
+  for (const csv of file.csvFiles ?? []) {
+    const name = stripExtension(withExtension(safeName(csv.filename), '.csv'));
+    let filename = `${name}.csv`;
+    for (let n = 2; usedNames.has(filename.toLowerCase()); n++) {
+      filename = `${name}_${n}.csv`;
+    }
+    usedNames.add(filename.toLowerCase());
+    const base = stripExtension(filename);
+
+    const table: BundleTable = {
+      id: csv.id,
+      filename: csv.filename,
+      downloadError: csv.downloadError,
+      versions: [],
+    };
+
+    if (!csv.downloadError) {
+      const versions = versionEntries(
+        csv.versions ?? [],
+        label => `history/tables/${base}_${label}.csv`
+      );
+
+      zip.file(
+        `tables/${filename}`,
+        toCsv(csv.editedHeaders || csv.headers, csv.editedData || csv.data)
+      );
+      zip.file(`original/tables/${filename}`, toCsv(csv.headers, csv.data));
+      versions.forEach(({ version, meta }) =>
+        zip.file(meta.path, toCsv(version.headers, version.data))
+      );
+
+      table.current = `tables/${filename}`;
+      table.original = `original/tables/${filename}`;
+      table.versions = versions.map(({ meta }) => meta);
+
+      // A Transform2Tidy result that was neither accepted nor discarded
+      const transform = file.tableTransforms?.[csv.id];
+      if (transform?.transformedData) {
+        table.tidy = `tidy/${base}_tidy.csv`;
+        zip.file(
+          table.tidy,
+          toCsv(transform.transformedHeaders ?? [], transform.transformedData)
+        );
+      }
+    }
+
+    manifest.tables.push(table);
+  }
+
+  zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+}
+
+// Note of the version added when a current file was changed after export
+const OUTSIDE_EDIT_NOTE = 'Edited outside the app';
+
+const createId = () => `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+const readEntry = async (zip: JSZip, path: string) => {
+  const entry = zip.file(path);
+  if (!entry) throw new Error(`The bundle is missing ${path}`);
+  return entry.async('string');
+};
+
+// Tables the app keeps to itself in a bundle were written by toCsv, with commas
+const parseBundleCsv = (text: string) => parseCsv(text, { delimiter: ',' });
+
+// The current table may have been saved again by a spreadsheet, e.g. with
+// semicolons in some locales. Commas are assumed when the detected
+// delimiter does not give the original's columns.
+const parseCurrentCsv = (text: string, columnCount: number) => {
+  const detected = parseCsv(text);
+  return detected.headers.length === columnCount ? detected : parseBundleCsv(text);
+};
+
+const sameTable = (
+  a: { headers: string[]; data: string[][] },
+  b: { headers: string[]; data: string[][] }
+) => JSON.stringify([a.headers, a.data]) === JSON.stringify([b.headers, b.data]);
+
+const isManifest = (value: unknown): value is BundleManifest =>
+  typeof value === 'object' &&
+  value !== null &&
+  (value as BundleManifest).format === BUNDLE_FORMAT &&
+  typeof (value as BundleManifest).source?.name === 'string' &&
+  Array.isArray((value as BundleManifest).tables);
+
+const readMarkdown = async (
+  zip: JSZip,
+  meta: NonNullable<BundleManifest['markdown']>
+): Promise<MarkdownFile> => {
+  const content = await readEntry(zip, meta.original);
+  const versions: MarkdownVersion[] = await Promise.all(
+    meta.versions.map(async version => ({
+      id: version.id,
+      createdAt: version.createdAt,
+      note: version.note,
+      content: await readEntry(zip, version.path),
+    }))
+  );
+
+  const current = await readEntry(zip, meta.current);
+  const latest = versions.length ? versions[versions.length - 1].content : content;
+  if (current !== latest) {
+    versions.push({
+      id: createId(),
+      createdAt: new Date().toISOString(),
+      note: OUTSIDE_EDIT_NOTE,
+      content: current,
+    });
+  }
+
+  return {
+    content,
+    filename: meta.filename,
+    editedContent: versions.length ? current : undefined,
+    versions,
+  };
+};
+
+const readTable = async (
+  zip: JSZip,
+  meta: BundleTable
+): Promise<{ csv: CsvFile; transform?: TableTransformState }> => {
+  if (meta.downloadError || !meta.original || !meta.current) {
+    return {
+      csv: {
+        id: meta.id,
+        filename: meta.filename,
+        headers: [],
+        data: [],
+        downloadError: meta.downloadError ?? 'Not included in the bundle',
+      },
+    };
+  }
+
+  const original = parseBundleCsv(await readEntry(zip, meta.original));
+  const versions: CsvVersion[] = await Promise.all(
+    meta.versions.map(async version => {
+      const { headers, data } = parseBundleCsv(await readEntry(zip, version.path));
+      return {
+        id: version.id,
+        createdAt: version.createdAt,
+        note: version.note,
+        headers,
+        data,
+      };
+    })
+  );
+
+  // Compared cell by cell: quoting and line endings may change on the way
+  const current = parseCurrentCsv(await readEntry(zip, meta.current), original.headers.length);
+  const latest = versions.length ? versions[versions.length - 1] : original;
+  if (!sameTable(current, latest)) {
+    const { headers, data } = current;
+    versions.push({
+      id: createId(),
+      createdAt: new Date().toISOString(),
+      note: OUTSIDE_EDIT_NOTE,
+      headers,
+      data,
+    });
+  }
+
+  const edited = versions[versions.length - 1];
+  const csv: CsvFile = {
+    id: meta.id,
+    filename: meta.filename,
+    headers: original.headers,
+    data: original.data,
+    editedHeaders: edited?.headers,
+    editedData: edited?.data,
+    versions,
+    parseIssues: original.issues.length ? original.issues : undefined,
+  };
+
+  if (!meta.tidy) return { csv };
+  const tidy = parseBundleCsv(await readEntry(zip, meta.tidy));
+  return {
+    csv,
+    transform: {
+      isTransforming: false,
+      transformedHeaders: tidy.headers,
+      transformedData: tidy.data,
+    },
+  };
+};
+
+/**
+ * Rebuild a document, with its version history, from a ZIP made by
+ * `buildResultBundle`.
+ */
+async function readResultBundle(archive: Blob): Promise<ProcessedFile> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(archive);
+  } catch {
+    throw new Error('The file is not a valid ZIP archive');
+  }
+
+  const manifestText = await readEntry(zip, MANIFEST_PATH);
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(manifestText);
+  } catch {
+    throw new Error(`${MANIFEST_PATH} is not valid JSON`);
+  }
+  if (!isManifest(manifest)) {
+    throw new Error('The ZIP is not a result bundle exported by this app');
+  }
+  if (manifest.formatVersion > BUNDLE_FORMAT_VERSION) {
+    throw new Error('The bundle was exported by a newer version of the app');
+  }
+
+  const markdown = manifest.markdown && (await readMarkdown(zip, manifest.markdown));
+  const tables = await Promise.all(manifest.tables.map(table => readTable(zip, table)));
+  const tableTransforms = Object.fromEntries(
+    tables.flatMap(({ csv, transform }) => (transform ? [[csv.id, transform]] : []))
+  );
+
+  const uploadedAt = new Date(manifest.source.uploadedAt);
+  return {
+    id: createId(),
+    name: manifest.source.name,
+    type: manifest.source.type === 'image' ? 'image' : 'pdf',
+    uploadedAt: Number.isNaN(uploadedAt.getTime()) ? new Date() : uploadedAt,
+    status: 'completed',
+    documentName: manifest.documentName,
+    markdown,
+    csvFiles: tables.map(({ csv }) => csv),
+    tableTransforms,
+  };
+}
+
+/**
+ * Build a document from a markdown file and/or CSV tables saved
+ * separately. They become the original extraction, without history.
+ */
+async function readLooseFiles(files: File[]): Promise<ProcessedFile> {
+  const markdownFiles = files.filter(file => /\.(md|markdown)$/i.test(file.name));
+  const csvFiles = files.filter(file => /\.csv$/i.test(file.name));
+  if (markdownFiles.length > 1) {
+    throw new Error('Select at most one markdown file');
+  }
+  if (markdownFiles.length + csvFiles.length === 0) {
+    throw new Error('Select a .zip bundle, or .md and .csv files');
+  }
+
+  const [markdownFile] = markdownFiles;
+  const markdown: MarkdownFile | undefined = markdownFile && {
+    content: await markdownFile.text(),
+    filename: stripExtension(markdownFile.name),
+  };
+
+  const tables = await Promise.all(
+    csvFiles.map(async (file, idx): Promise<CsvFile> => {
+      const parsed = parseCsv(await file.text());
+      return {
+        id: `csv-${idx}`,
+        filename: file.name,
+        headers: parsed.headers,
+        data: parsed.data,
+        parseIssues: parsed.issues.length ? parsed.issues : undefined,
+      };
+    })
+  );
+
+  return {
+    id: createId(),
+    name: (markdownFile ?? csvFiles[0]).name,
+    type: 'pdf',
+    uploadedAt: new Date(),
+    status: 'completed',
+    markdown,
+    csvFiles: tables,
+  };
+}
+
+/**
+ * Open what the user picked: one exported ZIP, or loose .md and .csv files.
+ */
+export async function readProject(files: File[]): Promise<ProcessedFile> {
+  const archives = files.filter(file => /\.zip$/i.test(file.name));
+  if (archives.length === 0) return readLooseFiles(files);
+  if (files.length > 1) {
+    throw new Error('Open a .zip bundle on its own');
+  }
+  return readResultBundle(archives[0]);
+}
@@ -0,0 +1,99 @@
+/**
+ * Thin promise wrapper around the app's IndexedDB database.
+ * Object stores are created in `upgrade`; bump DB_VERSION when adding one.
+ */
+
+const DB_NAME = 'pdf-extraction';
+const DB_VERSION = 4;
+
+export const RESULT_CACHE_STORE = 'resultCache';
+export const WORKSPACE_STORE = 'workspace';
+export const SOURCE_FILES_STORE = 'sourceFiles';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 2) {
+    db.createObjectStore(WORKSPACE_STORE, { keyPath: 'id' });
+  }
+  if (oldVersion < 3) {
+    db.createObjectStore(SOURCE_FILES_STORE, { keyPath: 'id' });
+  }
+  if (oldVersion < 4) {
+    // Results are kept per backend; older entries do not record theirs
+    if (oldVersion >= 1) db.deleteObjectStore(RESULT_CACHE_STORE);
+    db.createObjectStore(RESULT_CACHE_STORE, { keyPath: ['backend', 'hash'] });
+  }
+};
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== 'undefined';
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (!isIndexedDbAvailable()) {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+      const openRequest = indexedDB.open(DB_NAME, DB_VERSION);
+      openRequest.onupgradeneeded = event => upgrade(openRequest.result, event.oldVersion);
+      openRequest.onsuccess = () => resolve(openRequest.result);
+      openRequest.onerror = () => reject(openRequest.error);
+    });
+    // Allow a later call to try again after a failure
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+export const promisifyRequest = <T>(idbRequest: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    idbRequest.onsuccess = () => resolve(idbRequest.result);
+    idbRequest.onerror = () => reject(idbRequest.error);
+  });
+
+/**
+ * Run `fn` inside a transaction on one store and resolve with its result
+ * once the transaction has committed.
+ */
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> => {
+  const db = await openDb();
+  const transaction = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+  const result = await fn(transaction.objectStore(storeName));
+  await done;
+  return result;
+};
+
+export const isQuotaExceededError = (error: unknown) =>
+  error instanceof DOMException &&
+  (error.name === 'QuotaExceededError' || error.code === DOMException.QUOTA_EXCEEDED_ERR);
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+/**
+ * How much of the origin's storage quota is in use, when the browser
+ * reports it (not available in insecure contexts).
+ */
+export const estimateStorage = async (): Promise<StorageEstimate | null> => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+  } catch {
+    return null;
+  }
+};
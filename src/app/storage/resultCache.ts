@@ -0,0 +1,89 @@
+import type { ExtractionResult } from '../api/client';
+import { debug } from '../api/pipelineLog';
+import { promisifyRequest, RESULT_CACHE_STORE, withStore } from './db';
+
+/**
+ * Extraction results keyed by the backend and the SHA-256 of the uploaded
+ * file, so that uploading the same document again can skip the backend
+ * entirely. A result is only reused with the backend that produced it:
+ * its document name means nothing to another one.
+ */
+
+export interface CachedResult {
+  backend: string; // getBackendId() when the result was made
+  hash: string;
+  fileName: string;
+  fileSize: number;
+  fileType: string;
+  cachedAt: number; // epoch ms
+  sizeBytes: number; // Approximate storage used by `result`
+  result: ExtractionResult;
+}
+
+// Everything except the payload, for listing entries without loading tables
+export type CachedResultSummary = Omit<CachedResult, 'result'> & {
+  documentName: string;
+  tableCount: number;
+};
+
+const estimateSize = (result: ExtractionResult) =>
+  new Blob([JSON.stringify(result)]).size;
+
+const summarize = ({ result, ...entry }: CachedResult): CachedResultSummary => ({
+  ...entry,
+  documentName: result.document_name,
+  tableCount: result.csv_files?.length ?? 0,
+});
+
+/**
+ * Look up a cached result. Storage failures are treated as a miss so the
+ * upload can go ahead normally.
+ */
+export const getCachedResult = async (
+  backend: string,
+  hash: string
+): Promise<CachedResult | null> => {
+  try {
+    const entry = await withStore(RESULT_CACHE_STORE, 'readonly', store =>
+      promisifyRequest<CachedResult | undefined>(store.get([backend, hash]))
+    );
+    return entry ?? null;
+  } catch (error) {
+    debug('[ResultCache] Lookup failed:', error);
+    return null;
+  }
+};
+
+export const putCachedResult = async (
+  backend: string,
+  hash: string,
+  file: File,
+  result: ExtractionResult
+): Promise<void> => {
+  const entry: CachedResult = {
+    backend,
+    hash,
+    fileName: file.name,
+    fileSize: file.size,
+    fileType: file.type,
+    cachedAt: Date.now(),
+    sizeBytes: estimateSize(result),
+    result,
+  };
+  await withStore(RESULT_CACHE_STORE, 'readwrite', store => promisifyRequest(store.put(entry)));
+};
+
+export const listCachedResults = async (): Promise<CachedResultSummary[]> => {
+  const entries = await withStore(RESULT_CACHE_STORE, 'readonly', store =>
+    promisifyRequest<CachedResult[]>(store.getAll())
+  );
+  return entries.map(summarize).sort((a, b) => b.cachedAt - a.cachedAt);
+};
+
+export const evictCachedResult = (backend: string, hash: string): Promise<void> =>
+  withStore(RESULT_CACHE_STORE, 'readwrite', store =>
+    promisifyRequest(store.delete([backend, hash]))
+  );
+
+export const clearResultCache = (): Promise<void> =>
+  withStore(RESULT_CACHE_STORE, 'readwrite', store => promisifyRequest(store.clear()));
@@ -0,0 +1,54 @@
+import { debug } from '../api/pipelineLog';
+import { promisifyRequest, SOURCE_FILES_STORE, withStore } from './db';
+
+/**
+ * The uploaded PDF or image of each document, kept so results can be
+ * checked against it. Stored apart from the workspace so documents stay
+ * plain JSON, and held in memory as well for browsers without IndexedDB.
+ */
+
+interface StoredSourceFile {
+  id: string; // ProcessedFile id
+  blob: Blob;
+}
+
+const memory = new Map<string, Blob>();
+
+export const putSourceFile = async (id: string, blob: Blob): Promise<void> => {
+  memory.set(id, blob);
+  try {
+    await withStore(SOURCE_FILES_STORE, 'readwrite', store =>
+      promisifyRequest(store.put({ id, blob } satisfies StoredSourceFile))
+    );
+  } catch (error) {
+    // Still shown until the next reload
+    debug('[SourceFiles] Could not store file:', error);
+  }
+};
+
+export const getSourceFile = async (id: string): Promise<Blob | null> => {
+  const cached = memory.get(id);
+  if (cached) return cached;
+  try {
+    const record = await withStore(SOURCE_FILES_STORE, 'readonly', store =>
+      promisifyRequest<StoredSourceFile | undefined>(store.get(id))
+    );
+    if (record) memory.set(id, record.blob);
+    return record?.blob ?? null;
+  } catch (error) {
+    debug('[SourceFiles] Lookup failed:', error);
+    return null;
+  }
+};
+
+export const deleteSourceFile = async (id: string): Promise<void> => {
+  memory.delete(id);
+  await withStore(SOURCE_FILES_STORE, 'readwrite', store =>
+    promisifyRequest(store.delete(id))
+  );
+};
+
+export const clearSourceFiles = async (): Promise<void> => {
+  memory.clear();
+  await withStore(SOURCE_FILES_STORE, 'readwrite', store => promisifyRequest(store.clear()));
+};
@@ -0,0 +1,86 @@
+import { ProcessedFile, TableTransformState } from '../types';
+import { promisifyRequest, withStore, WORKSPACE_STORE } from './db';
+
+/**
+ * Saves the workspace (every ProcessedFile, edits included) to IndexedDB
+ * so a reload or crash does not lose work.
+ */
+
+// ProcessedFile as stored. Dates are kept as ISO strings so records stay
+// plain JSON and can be revived the same way from any source.
+type StoredDocument = Omit<ProcessedFile, 'uploadedAt'> & { uploadedAt: string };
+
+const INTERRUPTED_ERROR = {
+  title: 'Processing interrupted',
+  message: 'The page was closed before extraction finished. Upload the document again.',
+};
+
+const isInProgress = (status: ProcessedFile['status']) =>
+  status === 'uploading' || status === 'queued' || status === 'processing';
+
+// Documents as last written, to only write what changed
+let savedDocuments = new Map<string, ProcessedFile>();
+
+const serializeDocument = (file: ProcessedFile): StoredDocument => ({
+  ...file,
+  uploadedAt: file.uploadedAt.toISOString(),
+});
+
+const reviveDocument = (record: StoredDocument): ProcessedFile => {
+  const uploadedAt = new Date(record.uploadedAt);
+  const file: ProcessedFile = {
+    ...record,
+    uploadedAt: Number.isNaN(uploadedAt.getTime()) ? new Date() : uploadedAt,
+  };
+
+  // Requests in flight did not survive the reload
+  if (isInProgress(file.status)) {
+    file.status = 'error';
+    file.error = INTERRUPTED_ERROR;
+  }
+  if (file.tableTransforms) {
+    file.tableTransforms = Object.fromEntries(
+      Object.entries(file.tableTransforms).filter(
+        (entry): entry is [string, TableTransformState] => !entry[1].isTransforming
+      )
+    );
+  }
+  return file;
+};
+
+/**
+ * Load the saved workspace, oldest document first.
+ */
+export const loadWorkspace = async (): Promise<ProcessedFile[]> => {
+  const records = await withStore(WORKSPACE_STORE, 'readonly', store =>
+    promisifyRequest<StoredDocument[]>(store.getAll())
+  );
+  const files = records
+    .map(reviveDocument)
+    .sort((a, b) => a.uploadedAt.getTime() - b.uploadedAt.getTime());
+  savedDocuments = new Map(files.map(file => [file.id, file]));
+  return files;
+};
+
+/**
+ * Write the documents that changed since the last save and delete the ones
+ * that were removed. Runs in one transaction, so a QuotaExceededError
+ * leaves the previous save intact.
+ */
+export const saveWorkspace = async (files: ProcessedFile[]): Promise<void> => {
+  const changed = files.filter(file => savedDocuments.get(file.id) !== file);
+  const currentIds = new Set(files.map(file => file.id));
+  const removed = [...savedDocuments.keys()].filter(id => !currentIds.has(id));
+  if (changed.length === 0 && removed.length === 0) return;
+
+  await withStore(WORKSPACE_STORE, 'readwrite', store => {
+    changed.forEach(file => store.put(serializeDocument(file)));
+    removed.forEach(id => store.delete(id));
+  });
+  savedDocuments = new Map(files.map(file => [file.id, file]));
+};
+
+export const clearWorkspace = async (): Promise<void> => {
+  await withStore(WORKSPACE_STORE, 'readwrite', store => promisifyRequest(store.clear()));
+  savedDocuments = new Map();
+};
@@ -1,18 +1,33 @@
 // Types for the PDF extraction application
-export interface ProcessedFile {
+export interface ProcessedFile extends ResultData {
   id: string;
   name: string;
   type: 'pdf' | 'image';
   uploadedAt: Date;
-  status: 'processing' | 'completed' | 'error';
+  status: ProcessingStatus;
+  error?: {
+    title: string;
+    message: string;
+  };
+  documentName?: string; // Backend document name, used to re-download tables
   markdown?: MarkdownFile;
   csvFiles?: CsvFile[];
 }
 
+// Lifecycle of a document, driven by the backend job state when available
+export type ProcessingStatus =
+  | 'uploading'
+  | 'queued'
+  | 'processing'
+  | 'completed'
+  | 'error'
+  | 'cancelled';
+
 export interface MarkdownFile {
   content: string;
   filename: string;
-  editedContent?: string;
+  editedContent?: string; // Same as the latest version's content
+  versions?: MarkdownVersion[];
 }
 
 export interface CsvFile {
@@ -22,19 +37,50 @@ export interface CsvFile {
   data: string[][];
   headers: string[];
   
-  editedHeaders?: string[];
+  editedHeaders?: string[]; // Same as the latest version's headers
   editedData?: string[][];
+  versions?: CsvVersion[];
+
+  parseIssues?: CsvParseIssue[];
+  downloadError?: string; // Table failed to download; headers and data are empty
+}
+
+// Saved states of an edited markdown file or table, oldest first. Versions
+// are never changed once created: restoring adds a new version with the old
+// content, and the original extraction (`content` / `headers` and `data`)
+// is kept as-is so it can always be recovered.
+export interface Version {
+  id: string;
+  createdAt: string; // ISO 8601
+  note?: string;
+}
+
+export interface MarkdownVersion extends Version {
+  content: string;
 }
 
-// ...existing code...
+export interface CsvVersion extends Version {
+  headers: string[];
+  data: string[][];
+}
+
+// A row that could not be read cleanly. `row` is the 1-based line of the
+// table (the header is row 1), so it matches what users see in a spreadsheet.
+export interface CsvParseIssue {
+  row: number;
+  message: string;
+}
+
+// Transform2Tidy output for one table, shown next to the original until
+// the user accepts it as the table's new version or discards it
 export interface TableTransformState {
   isTransforming: boolean;
-  transformedData?: string; // CSV data after transform
+  transformedHeaders?: string[];
+  transformedData?: string[][];
   error?: string;
 }
 
-// Add to existing ResultData interface
+// Derived results kept alongside the extraction
 export interface ResultData {
-  // ...existing fields...
-  tableTransforms?: Record<number, TableTransformState>; // key is table index
-}
\ No newline at end of file
+  tableTransforms?: Record<string, TableTransformState>; // key is CsvFile.id
+}
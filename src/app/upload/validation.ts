@@ -0,0 +1,166 @@
+import { loadPdfByRanges } from '../pdf/pdfjs';
+import { loadImage } from '../image/preprocess';
+
+/**
+ * Checks run on a file before it can be uploaded, so a renamed document,
+ * a locked PDF or an oversized scan is reported at once instead of
+ * failing at the backend.
+ *
+ * Limits (env var, default):
+ * - largest file in MB: `VITE_MAX_UPLOAD_MB`, 100
+ * - most PDF pages sent in one upload: `VITE_MAX_PDF_PAGES`, 500
+ *
+ * Both apply to what is uploaded: a PDF over either limit can still be
+ * added, and pages deselected to bring it under.
+ */
+
+export interface UploadLimits {
+  maxFileSizeMb: number;
+  maxPdfPages: number;
+}
+
+const readLimit = (envKey: 'VITE_MAX_UPLOAD_MB' | 'VITE_MAX_PDF_PAGES', fallback: number) => {
+  const value = Number(import.meta.env?.[envKey]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+export const UPLOAD_LIMITS: UploadLimits = {
+  maxFileSizeMb: readLimit('VITE_MAX_UPLOAD_MB', 100),
+  maxPdfPages: readLimit('VITE_MAX_PDF_PAGES', 500),
+};
+
+export const maxFileSizeBytes = (limits: UploadLimits = UPLOAD_LIMITS) =>
+  limits.maxFileSizeMb * 1024 * 1024;
+
+const formatMb = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export const tooLargeMessage = (size: number, limits: UploadLimits = UPLOAD_LIMITS) =>
+  `${formatMb(size)} is over the ${limits.maxFileSizeMb} MB limit`;
+
+export const tooLargePdfMessage = (size: number, limits: UploadLimits = UPLOAD_LIMITS) =>
+  `${tooLargeMessage(size, limits)}; select fewer pages to upload`;
+
+// Adjusted images are re-encoded, and black and white is saved as PNG
+export const tooLargeImageMessage = (size: number, limits: UploadLimits = UPLOAD_LIMITS) =>
+  `${tooLargeMessage(size, limits)} after adjusting; crop it or turn off black & white`;
+
+export const tooManyPagesMessage = (pageCount: number, limits: UploadLimits = UPLOAD_LIMITS) =>
+  `${pageCount} pages; select at most ${limits.maxPdfPages} to upload`;
+
+export const UNSUPPORTED_TYPE_MESSAGE =
+  'Not a PDF or a supported image (PNG, JPEG, GIF, BMP, WebP)';
+
+export type FileKind = 'pdf' | 'png' | 'jpeg' | 'gif' | 'bmp' | 'webp';
+
+const KIND_LABELS: Record<FileKind, string> = {
+  pdf: 'a PDF',
+  png: 'a PNG image',
+  jpeg: 'a JPEG image',
+  gif: 'a GIF image',
+  bmp: 'a BMP image',
+  webp: 'a WebP image',
+};
+
+const EXTENSION_KINDS: Record<string, FileKind> = {
+  pdf: 'pdf',
+  png: 'png',
+  jpg: 'jpeg',
+  jpeg: 'jpeg',
+  gif: 'gif',
+  bmp: 'bmp',
+  webp: 'webp',
+};
+
+// Header bytes read to identify a file. PDF readers accept junk before
+// %PDF- within the first kilobyte, so the backend does too.
+const HEADER_BYTES = 1024;
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, i) => bytes[offset + i] === byte);
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+
+/**
+ * What the content of a file is, from its first bytes. Common formats the
+ * app cannot process come back with the message to show.
+ */
+export const detectKind = (bytes: Uint8Array): FileKind | { unsupported: string } | null => {
+  const pdfSignature = ascii('%PDF-');
+  for (let offset = 0; offset + pdfSignature.length <= bytes.length; offset++) {
+    if (startsWith(bytes, pdfSignature, offset)) return 'pdf';
+  }
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png';
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'jpeg';
+  if (startsWith(bytes, ascii('GIF87a')) || startsWith(bytes, ascii('GIF89a'))) return 'gif';
+  if (startsWith(bytes, ascii('BM'))) return 'bmp';
+  if (startsWith(bytes, ascii('RIFF')) && startsWith(bytes, ascii('WEBP'), 8)) return 'webp';
+
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) {
+    return { unsupported: 'This is a Word, Excel or other ZIP-based file, not a PDF or image' };
+  }
+  if (startsWith(bytes, [0xd0, 0xcf, 0x11, 0xe0])) {
+    return { unsupported: 'This is an older Word or Excel file, not a PDF or image' };
+  }
+  if (startsWith(bytes, ascii('ftyp'), 4)) {
+    return { unsupported: 'HEIC photos and videos are not supported; convert the photo to JPEG first' };
+  }
+  return null;
+};
+
+export type FileCheck =
+  | { ok: true; kind: FileKind; pageCount?: number }
+  | { ok: false; error: string };
+
+const fail = (error: string): FileCheck => ({ ok: false, error });
+
+/**
+ * Check that `file` is a readable PDF or image, and an image within the
+ * size limit. PDF limits are not enforced here: pages can still be
+ * deselected.
+ */
+export async function validateFile(
+  file: File,
+  limits: UploadLimits = UPLOAD_LIMITS
+): Promise<FileCheck> {
+  if (file.size === 0) return fail('The file is empty');
+
+  const header = new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer());
+  const kind = detectKind(header);
+  if (kind === null) return fail(UNSUPPORTED_TYPE_MESSAGE);
+  if (typeof kind === 'object') return fail(kind.unsupported);
+
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  const named = EXTENSION_KINDS[extension];
+  // JPEG and PNG are often mixed up harmlessly; only PDF versus image matters
+  if (named && (named === 'pdf') !== (kind === 'pdf')) {
+    return fail(`Named .${extension} but the content is ${KIND_LABELS[kind]}`);
+  }
+
+  if (kind !== 'pdf') {
+    if (file.size > maxFileSizeBytes(limits)) return fail(tooLargeMessage(file.size, limits));
+    try {
+      (await loadImage(file)).close();
+    } catch {
+      return fail('The image is damaged or cannot be read');
+    }
+    return { ok: true, kind };
+  }
+
+  try {
+    // Only the page count is needed, not the whole file
+    const pdf = await loadPdfByRanges(file);
+    const pageCount = pdf.numPages;
+    await pdf.destroy();
+    if (pageCount === 0) return fail('The PDF has no pages');
+    return { ok: true, kind, pageCount };
+  } catch (error) {
+    const name = (error as { name?: string } | null)?.name;
+    if (name === 'PasswordException') {
+      return fail('The PDF is password-protected; remove the password and upload it again');
+    }
+    if (name === 'InvalidPDFException') {
+      return fail('The PDF is damaged and cannot be read');
+    }
+    return fail(`The PDF cannot be read: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -2,6 +2,14 @@
 
 interface ImportMetaEnv {
   readonly VITE_API_BASE_URL: string;
+  readonly VITE_USE_MOCK_API?: string;
+  readonly VITE_MOCK_LATENCY_MS?: string;
+  readonly VITE_MOCK_ERROR_RATE?: string;
+  readonly VITE_MOCK_FAIL?: string;
+  readonly VITE_MOCK_JOBS?: string;
+  readonly VITE_MOCK_AUTH?: string;
+  readonly VITE_MAX_UPLOAD_MB?: string;
+  readonly VITE_MAX_PDF_PAGES?: string;
 }
 
 interface ImportMeta {